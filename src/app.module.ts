@@ -1,4 +1,9 @@
-import { MiddlewareConsumer, Module, RequestMethod } from '@nestjs/common';
+import {
+  ClassSerializerInterceptor,
+  MiddlewareConsumer,
+  Module,
+  RequestMethod,
+} from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { APP_FILTER, APP_INTERCEPTOR } from '@nestjs/core';
@@ -11,6 +16,8 @@ import * as path from 'path';
 import * as winston from 'winston';
 import { MediaModule } from './media/media.module';
 import { AlbumsModule } from './albums/albums.module';
+import { WatermarksModule } from './watermarks/watermarks.module';
+import { CaptionsModule } from './captions/captions.module';
 import { LoggerModule } from './logger/logger.module';
 import { AuthModule } from './auth/auth.module';
 import { WorkerModule } from './worker/worker.module';
@@ -99,6 +106,8 @@ import { WinstonModule } from 'nest-winston';
     }),
     AlbumsModule,
     MediaModule,
+    WatermarksModule,
+    CaptionsModule,
     MetricsModule,
     WorkerModule,
     AuthModule,
@@ -113,6 +122,10 @@ import { WinstonModule } from 'nest-winston';
       provide: APP_INTERCEPTOR,
       useClass: MetricsInterceptor,
     },
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: ClassSerializerInterceptor, // Applies @Exclude on entities
+    },
   ],
 })
 export class AppModule {
@@ -0,0 +1,19 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Allows members of the Cognito administrators group (`cognito.adminGroup`).
+ * Use after `JwtAuthGuard`, which puts the token's claims on the request.
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const { user } = context.switchToHttp().getRequest();
+    const groups: string[] = user?.['cognito:groups'] ?? [];
+    return groups.includes(
+      this.configService.get<string>('cognito.adminGroup') || 'admin'
+    );
+  }
+}
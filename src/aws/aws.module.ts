@@ -4,8 +4,16 @@ import { ObjectDetector } from './object-detector.service';
 import { ContentModerator } from './content-moderator.service';
 import { LoggerService } from 'src/logger/logger.service';
 import { ConfigService } from '@nestjs/config';
+import { S3StorageProvider } from './storage/s3-storage.provider';
+import { LocalStorageProvider } from './storage/local-storage.provider';
+import { LocalStorageController } from './storage/local-storage.controller';
+import { RekognitionFaceDetector } from './faces/rekognition-face-detector.provider';
+import { LocalFaceDetector } from './faces/local-face-detector.provider';
+import { MediaConvertTranscodingProvider } from './transcoding/media-convert-transcoding.provider';
+import { FfmpegTranscodingProvider } from './transcoding/ffmpeg-transcoding.provider';
 
 @Module({
+  controllers: [LocalStorageController],
   providers: [
     // ✅ S3 Storage
     {
@@ -78,6 +86,58 @@ import { ConfigService } from '@nestjs/config';
       inject: [ConfigService],
     },
 
+    // ✅ Storage backend (S3 or local filesystem)
+    S3StorageProvider,
+    LocalStorageProvider,
+    {
+      provide: 'STORAGE',
+      useFactory: (
+        configService: ConfigService,
+        s3Storage: S3StorageProvider,
+        localStorage: LocalStorageProvider
+      ) =>
+        configService.get<string>('storage.driver') === 'local'
+          ? localStorage
+          : s3Storage,
+      inject: [ConfigService, S3StorageProvider, LocalStorageProvider],
+    },
+
+    // ✅ Face detection (Rekognition or a local stub)
+    RekognitionFaceDetector,
+    LocalFaceDetector,
+    {
+      provide: 'FACE_DETECTOR',
+      useFactory: (
+        configService: ConfigService,
+        rekognitionDetector: RekognitionFaceDetector,
+        localDetector: LocalFaceDetector
+      ) =>
+        configService.get<string>('faceDetection.driver') === 'local'
+          ? localDetector
+          : rekognitionDetector,
+      inject: [ConfigService, RekognitionFaceDetector, LocalFaceDetector],
+    },
+
+    // ✅ Video transcoding (MediaConvert or ffmpeg in the worker)
+    MediaConvertTranscodingProvider,
+    FfmpegTranscodingProvider,
+    {
+      provide: 'TRANSCODER',
+      useFactory: (
+        configService: ConfigService,
+        mediaConvertTranscoder: MediaConvertTranscodingProvider,
+        ffmpegTranscoder: FfmpegTranscodingProvider
+      ) =>
+        configService.get<string>('transcoding.driver') === 'ffmpeg'
+          ? ffmpegTranscoder
+          : mediaConvertTranscoder,
+      inject: [
+        ConfigService,
+        MediaConvertTranscodingProvider,
+        FfmpegTranscodingProvider,
+      ],
+    },
+
     // ✅ Logger & Services
     LoggerService,
     ObjectDetector,
@@ -93,6 +153,9 @@ import { ConfigService } from '@nestjs/config';
     'MEDIA_CONVERT',
     'DYNAMODB',
     'BUCKET_NAME',
+    'STORAGE',
+    'FACE_DETECTOR',
+    'TRANSCODER',
   ],
 })
 export class AwsModule {}
@@ -1,11 +1,12 @@
 import { Inject, Injectable } from '@nestjs/common';
 import AWS from 'aws-sdk';
 import { LoggerService } from 'src/logger/logger.service';
+import { StorageProvider } from './storage/storage.provider';
 
 @Injectable()
 export class ContentModerator {
   constructor(
-    @Inject('S3') private readonly s3: AWS.S3,
+    @Inject('STORAGE') private readonly storage: StorageProvider,
     @Inject('REKOGNITION') private readonly rekognition: AWS.Rekognition,
     @Inject('BUCKET_NAME') private readonly bucketName: string,
     private readonly logger: LoggerService
@@ -13,17 +14,19 @@ export class ContentModerator {
 
   /**
    * ✅ Determines if media is an image or video and processes it accordingly.
-   * @param key The S3 object key.
+   * @param key The storage object key.
+   * @param imageBytes The image contents, if already downloaded.
    * @returns `true` if explicit content is detected, otherwise `false`.
    */
   async moderateContent(
     mediaId: string,
-    key: string
+    key: string,
+    imageBytes?: Buffer
   ): Promise<boolean | string> {
     this.logger.log(`Moderating content for key: ${key}`);
 
     if (this.isImage(key)) {
-      return this.moderateImage(key);
+      return this.moderateImage(key, imageBytes);
     } else if (this.isVideo(key)) {
       return this.moderateVideo(mediaId, key);
     } else {
@@ -35,24 +38,14 @@ export class ContentModerator {
   /**
    * ✅ Moderates images using AWS Rekognition.
    */
-  private async moderateImage(key: string): Promise<boolean> {
+  private async moderateImage(
+    key: string,
+    imageBytes?: Buffer
+  ): Promise<boolean> {
     this.logger.log(`Performing image moderation for key: ${key}`);
 
     try {
-      const params: AWS.S3.GetObjectRequest = {
-        Bucket: this.bucketName,
-        Key: key,
-      };
-      const media = await this.s3.getObject(params).promise();
-
-      if (!media.Body) {
-        this.logger.error(`S3 object ${key} has no body.`);
-        return false;
-      }
-
-      const imageBytes = Buffer.isBuffer(media.Body)
-        ? media.Body
-        : Buffer.from(media.Body as Uint8Array);
+      imageBytes ??= await this.storage.getObject(key);
 
       const detectParams: AWS.Rekognition.DetectModerationLabelsRequest = {
         Image: { Bytes: imageBytes },
@@ -85,7 +78,7 @@ export class ContentModerator {
         `Failed to moderate image for key: ${key}`,
         error as any
       );
-      return false;
+      throw new Error('Image moderation failed');
     }
   }
 
@@ -147,7 +140,7 @@ export class ContentModerator {
    * ✅ Determines if the file is an image based on extension.
    */
   private isImage(key: string): boolean {
-    return /\.(jpg|jpeg|png|gif|bmp|tiff|webp)$/i.test(key);
+    return /\.(jpg|jpeg|png|gif|bmp|tiff|webp|heic|heif|avif)$/i.test(key);
   }
 
   /**
@@ -0,0 +1,23 @@
+// src/aws/faces/face-detector.provider.ts
+
+/**
+ * A detected face. Coordinates are fractions of the image's width and height,
+ * measured from the top-left corner.
+ */
+export interface FaceBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  confidence: number;
+}
+
+/**
+ * A face detection backend, used to keep faces in frame when cropping.
+ */
+export interface FaceDetectorProvider {
+  /**
+   * Detects faces in a JPEG or PNG image.
+   */
+  detectFaces(image: Buffer): Promise<FaceBox[]>;
+}
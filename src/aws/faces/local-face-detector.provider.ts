@@ -0,0 +1,15 @@
+// src/aws/faces/local-face-detector.provider.ts
+
+import { Injectable } from '@nestjs/common';
+import { FaceBox, FaceDetectorProvider } from './face-detector.provider';
+
+/**
+ * Stand-in for local development and tests. Never finds a face, so crops fall
+ * back to saliency-based cropping.
+ */
+@Injectable()
+export class LocalFaceDetector implements FaceDetectorProvider {
+  async detectFaces(_image: Buffer): Promise<FaceBox[]> {
+    return [];
+  }
+}
@@ -0,0 +1,30 @@
+// src/aws/faces/rekognition-face-detector.provider.ts
+
+import { Inject, Injectable } from '@nestjs/common';
+import AWS from 'aws-sdk';
+import { FaceBox, FaceDetectorProvider } from './face-detector.provider';
+
+const MIN_CONFIDENCE = 90;
+
+@Injectable()
+export class RekognitionFaceDetector implements FaceDetectorProvider {
+  constructor(
+    @Inject('REKOGNITION') private readonly rekognition: AWS.Rekognition
+  ) {}
+
+  async detectFaces(image: Buffer): Promise<FaceBox[]> {
+    const response = await this.rekognition
+      .detectFaces({ Image: { Bytes: image }, Attributes: ['DEFAULT'] })
+      .promise();
+
+    return (response.FaceDetails ?? [])
+      .filter(face => (face.Confidence ?? 0) >= MIN_CONFIDENCE)
+      .map(({ BoundingBox: box = {}, Confidence }) => ({
+        left: box.Left ?? 0,
+        top: box.Top ?? 0,
+        width: box.Width ?? 0,
+        height: box.Height ?? 0,
+        confidence: Confidence ?? 0,
+      }));
+  }
+}
@@ -3,40 +3,27 @@
 import { Inject, Injectable } from '@nestjs/common';
 import AWS from 'aws-sdk';
 import { LoggerService } from 'src/logger/logger.service';
+import { StorageProvider } from './storage/storage.provider';
 
 @Injectable()
 export class ObjectDetector {
   constructor(
-    @Inject('S3') private readonly s3: AWS.S3,
+    @Inject('STORAGE') private readonly storage: StorageProvider,
     @Inject('REKOGNITION') private readonly rekognition: AWS.Rekognition,
-    @Inject('BUCKET_NAME') private readonly bucketName: string,
     private readonly logger: LoggerService
   ) {}
 
   /**
-   * Detects objects in an image stored in S3.
-   * @param key The S3 object key.
+   * Detects objects in an image held in storage.
+   * @param key The storage object key.
+   * @param imageBytes The image contents, if already downloaded.
    * @returns A promise that resolves to an array of detected object names.
    */
-  async detectObjects(key: string): Promise<string[]> {
+  async detectObjects(key: string, imageBytes?: Buffer): Promise<string[]> {
     this.logger.log(`Detecting objects in key: ${key}`);
 
-    const params: AWS.S3.GetObjectRequest = {
-      Bucket: this.bucketName,
-      Key: key,
-    };
-
     try {
-      const media = await this.s3.getObject(params).promise();
-
-      if (!media.Body) {
-        this.logger.error(`S3 object ${key} has no body.`);
-        return [];
-      }
-
-      const imageBytes = Buffer.isBuffer(media.Body)
-        ? media.Body
-        : Buffer.from(media.Body as Uint8Array);
+      imageBytes ??= await this.storage.getObject(key);
 
       const detectParams: AWS.Rekognition.DetectLabelsRequest = {
         Image: { Bytes: imageBytes },
@@ -61,7 +48,7 @@ export class ObjectDetector {
         `Failed to detect objects in ${key}:`,
         (error as Error).stack
       );
-      return [];
+      throw new Error('Object detection failed');
     }
   }
 }
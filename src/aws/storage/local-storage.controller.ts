@@ -0,0 +1,177 @@
+// src/aws/storage/local-storage.controller.ts
+
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Put,
+  Query,
+  Req,
+  Res,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as os from 'os';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiExcludeController } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { ConfigService } from '@nestjs/config';
+import { LocalStorageProvider } from './local-storage.provider';
+import { isPrivateKey } from './storage.provider';
+import { LoggerService } from 'src/logger/logger.service';
+import { MAX_UPLOAD_BYTES } from 'src/media/media-constraints';
+
+/**
+ * Serves the presigned-style upload and download URLs issued by
+ * `LocalStorageProvider`. Only active when `storage.driver` is `local`.
+ */
+@ApiExcludeController()
+@Controller('storage')
+export class LocalStorageController {
+  constructor(
+    private readonly localStorage: LocalStorageProvider,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService
+  ) {}
+
+  /**
+   * Accepts a raw upload to a signed URL.
+   *
+   * **Endpoint**: PUT /storage/:key?expires=...&signature=...
+   */
+  @Put('*')
+  async upload(
+    @Param('0') key: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response
+  ) {
+    this.ensureEnabled();
+
+    const contentType = this.localStorage.isMultipartPartKey(key)
+      ? ''
+      : req.headers['content-type'] || '';
+    if (
+      !this.localStorage.verifySignature(
+        'PUT',
+        key,
+        expires,
+        signature,
+        contentType
+      )
+    ) {
+      this.logger.warn(`Rejected local upload with invalid signature: ${key}`);
+      throw new ForbiddenException('Invalid or expired signature');
+    }
+
+    const etag = await this.localStorage.writeStream(key, req);
+    res.setHeader('ETag', etag);
+    this.logger.log(`Stored local upload: ${key}`);
+    return { key };
+  }
+
+  /**
+   * Accepts a form upload issued by `getUploadPost`, enforcing the signed
+   * content type and size limit. The file is spooled to a temporary file
+   * rather than memory, and multer stops reading past the largest upload any
+   * policy can allow.
+   *
+   * **Endpoint**: POST /storage (multipart/form-data)
+   */
+  @Post()
+  @UseInterceptors(
+    FileInterceptor('file', {
+      dest: os.tmpdir(),
+      limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+    })
+  )
+  async uploadForm(
+    @Body() body: Record<string, string>,
+    @UploadedFile() file: { path: string; size: number } | undefined
+  ) {
+    try {
+      return await this.storeForm(body, file);
+    } finally {
+      if (file) {
+        await fsp.rm(file.path, { force: true });
+      }
+    }
+  }
+
+  /**
+   * Serves a stored object. Objects are publicly readable, mirroring the
+   * CloudFront distribution, except for private keys, which need a signed
+   * URL; a signature is checked whenever one is given.
+   *
+   * **Endpoint**: GET /storage/:key
+   */
+  @Get('*')
+  async download(
+    @Param('0') key: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Res() res: Response
+  ) {
+    this.ensureEnabled();
+
+    if (
+      (signature || isPrivateKey(key)) &&
+      !this.localStorage.verifySignature('GET', key, expires, signature)
+    ) {
+      throw new ForbiddenException('Invalid or expired signature');
+    }
+
+    const info = this.localStorage.isMultipartPartKey(key)
+      ? null
+      : await this.localStorage.headObject(key);
+    if (!info) {
+      throw new NotFoundException('Object not found');
+    }
+
+    res.sendFile(this.localStorage.resolvePath(key));
+  }
+
+  private async storeForm(
+    body: Record<string, string>,
+    file: { path: string; size: number } | undefined
+  ) {
+    this.ensureEnabled();
+
+    const policy = this.localStorage.verifyPostPolicy(
+      body.policy,
+      body.signature
+    );
+    if (!policy || policy.key !== body.key) {
+      throw new ForbiddenException('Invalid or expired policy');
+    }
+    if (body['Content-Type'] !== policy.contentType) {
+      throw new ForbiddenException('Content-Type does not match policy');
+    }
+    if (!file || file.size < 1 || file.size > policy.maxBytes) {
+      throw new BadRequestException(
+        `File size must be between 1 and ${policy.maxBytes} bytes`
+      );
+    }
+
+    await this.localStorage.writeStream(
+      policy.key,
+      fs.createReadStream(file.path)
+    );
+    this.logger.log(`Stored local form upload: ${policy.key}`);
+    return { key: policy.key };
+  }
+
+  private ensureEnabled(): void {
+    if (this.configService.get<string>('storage.driver') !== 'local') {
+      throw new NotFoundException();
+    }
+  }
+}
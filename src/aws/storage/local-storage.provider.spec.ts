@@ -0,0 +1,117 @@
+// src/aws/storage/local-storage.provider.spec.ts
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigService } from '@nestjs/config';
+import { LocalStorageProvider } from './local-storage.provider';
+
+describe('LocalStorageProvider', () => {
+  let root: string;
+  let storage: LocalStorageProvider;
+
+  const createProvider = (storageConfig: Record<string, string>) =>
+    new LocalStorageProvider(new ConfigService({ storage: storageConfig }));
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'local-storage-'));
+    storage = createProvider({
+      driver: 'local',
+      localRoot: root,
+      signingSecret: 'test-secret',
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('resolvePath', () => {
+    it('resolves keys inside the storage root', () => {
+      expect(storage.resolvePath('image/photo.jpg')).toBe(
+        path.join(root, 'image', 'photo.jpg')
+      );
+      expect(storage.resolvePath('image/../video/clip.mp4')).toBe(
+        path.join(root, 'video', 'clip.mp4')
+      );
+    });
+
+    it.each([
+      '../outside.jpg',
+      'image/../../outside.jpg',
+      '/etc/passwd',
+      '',
+      '.',
+    ])('rejects %p', key => {
+      expect(() => storage.resolvePath(key)).toThrow('Invalid storage key');
+    });
+
+    it('rejects sibling directories that share the root as a prefix', () => {
+      expect(() =>
+        storage.resolvePath(`../${path.basename(root)}-sibling/photo.jpg`)
+      ).toThrow('Invalid storage key');
+    });
+
+    it('keeps object operations inside the storage root', async () => {
+      await expect(
+        storage.putObject('../escaped.txt', Buffer.from('nope'))
+      ).rejects.toThrow('Invalid storage key');
+      await expect(storage.getObject('../../etc/passwd')).rejects.toThrow(
+        'Invalid storage key'
+      );
+      expect(fs.existsSync(path.join(root, '..', 'escaped.txt'))).toBe(false);
+    });
+  });
+
+  describe('signed URLs', () => {
+    const queryOf = (url: string) => new URL(url).searchParams;
+
+    it('accepts the signature of a download URL for its key only', async () => {
+      const query = queryOf(
+        await storage.getDownloadUrl('private/image/photo.jpg', 300)
+      );
+      const expires = query.get('expires')!;
+      const signature = query.get('signature')!;
+
+      expect(
+        storage.verifySignature(
+          'GET',
+          'private/image/photo.jpg',
+          expires,
+          signature
+        )
+      ).toBe(true);
+      expect(
+        storage.verifySignature('GET', 'image/other.jpg', expires, signature)
+      ).toBe(false);
+      expect(
+        storage.verifySignature(
+          'PUT',
+          'private/image/photo.jpg',
+          expires,
+          signature
+        )
+      ).toBe(false);
+    });
+
+    it('rejects expired signatures', async () => {
+      const signature = queryOf(
+        await storage.getDownloadUrl('image/photo.jpg', 300)
+      ).get('signature')!;
+      const expired = String(Math.floor(Date.now() / 1000) - 1);
+
+      expect(
+        storage.verifySignature('GET', 'image/photo.jpg', expired, signature)
+      ).toBe(false);
+    });
+  });
+
+  it('requires a signing secret for the local driver', () => {
+    expect(() => createProvider({ driver: 'local', localRoot: root })).toThrow(
+      'STORAGE_SIGNING_SECRET must be set'
+    );
+    expect(() =>
+      createProvider({ driver: 's3', localRoot: root })
+    ).not.toThrow();
+  });
+});
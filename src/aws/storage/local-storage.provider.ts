@@ -0,0 +1,335 @@
+// src/aws/storage/local-storage.provider.ts
+
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { pipeline } from 'stream/promises';
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  PresignedPost,
+  PutObjectOptions,
+  StorageProvider,
+  StoredObjectInfo,
+  UploadedPart,
+} from './storage.provider';
+
+const MULTIPART_PREFIX = '.multipart';
+
+/**
+ * Conditions signed into a local form upload.
+ */
+export interface LocalPostPolicy {
+  key: string;
+  contentType: string;
+  maxBytes: number;
+  expires: number;
+}
+
+/**
+ * Stores objects on the local filesystem. Upload and download URLs point back
+ * at this service (see `LocalStorageController`) and are signed with an HMAC
+ * so they behave like S3 presigned URLs.
+ */
+@Injectable()
+export class LocalStorageProvider implements StorageProvider {
+  private readonly root: string;
+  private readonly baseUrl: string;
+  private readonly signingSecret: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.root = path.resolve(
+      this.configService.get<string>('storage.localRoot') || 'blobs'
+    );
+    this.baseUrl = (
+      this.configService.get<string>('storage.localBaseUrl') ||
+      'http://localhost:3000'
+    ).replace(/\/+$/, '');
+    this.signingSecret =
+      this.configService.get<string>('storage.signingSecret') ?? '';
+    if (
+      !this.signingSecret &&
+      this.configService.get<string>('storage.driver') === 'local'
+    ) {
+      throw new Error(
+        'STORAGE_SIGNING_SECRET must be set when the local storage driver is used'
+      );
+    }
+  }
+
+  async getObject(key: string): Promise<Buffer> {
+    return fsp.readFile(this.resolvePath(key));
+  }
+
+  getObjectStream(key: string): Readable {
+    return fs.createReadStream(this.resolvePath(key));
+  }
+
+  async getObjectHead(key: string, length: number): Promise<Buffer> {
+    const handle = await fsp.open(this.resolvePath(key), 'r');
+    try {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  async putObject(
+    key: string,
+    body: Buffer,
+    options: PutObjectOptions = {}
+  ): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fsp.mkdir(path.dirname(filePath), { recursive: true });
+    await fsp.writeFile(filePath, body);
+  }
+
+  /**
+   * Streams a request body to disk and returns its MD5 ETag. Used by the local
+   * upload endpoint so large uploads are never buffered in memory.
+   */
+  async writeStream(key: string, stream: Readable): Promise<string> {
+    const filePath = this.resolvePath(key);
+    await fsp.mkdir(path.dirname(filePath), { recursive: true });
+
+    const hash = createHash('md5');
+    stream.on('data', chunk => hash.update(chunk));
+    await pipeline(stream, fs.createWriteStream(filePath));
+    return `"${hash.digest('hex')}"`;
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await fsp.rm(this.resolvePath(key), { force: true });
+  }
+
+  async headObject(key: string): Promise<StoredObjectInfo | null> {
+    const stat = await fsp.stat(this.resolvePath(key)).catch(() => null);
+    if (!stat || !stat.isFile()) {
+      return null;
+    }
+    return { key, size: stat.size, lastModified: stat.mtime };
+  }
+
+  async getUploadUrl(
+    key: string,
+    contentType: string,
+    expiresIn: number
+  ): Promise<string> {
+    return this.signUrl('PUT', key, expiresIn, contentType);
+  }
+
+  async getUploadPost(
+    key: string,
+    contentType: string,
+    maxBytes: number,
+    expiresIn: number
+  ): Promise<PresignedPost> {
+    const policy: LocalPostPolicy = {
+      key,
+      contentType,
+      maxBytes,
+      expires: Math.floor(Date.now() / 1000) + expiresIn,
+    };
+    const encoded = Buffer.from(JSON.stringify(policy)).toString('base64url');
+
+    return {
+      url: `${this.baseUrl}/storage`,
+      fields: {
+        key,
+        'Content-Type': contentType,
+        policy: encoded,
+        signature: this.signPolicy(encoded),
+      },
+    };
+  }
+
+  /**
+   * Verifies a form upload policy and returns its conditions, or `null` if the
+   * policy is invalid or expired.
+   */
+  verifyPostPolicy(policy: string, signature: string): LocalPostPolicy | null {
+    if (!policy || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.signPolicy(policy));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      return null;
+    }
+
+    const decoded: LocalPostPolicy = JSON.parse(
+      Buffer.from(policy, 'base64url').toString()
+    );
+    return decoded.expires * 1000 < Date.now() ? null : decoded;
+  }
+
+  async getDownloadUrl(key: string, expiresIn: number): Promise<string> {
+    return this.signUrl('GET', key, expiresIn);
+  }
+
+  getPublicUrl(key: string): string {
+    return `${this.baseUrl}/storage/${key}`;
+  }
+
+  async createMultipartUpload(
+    key: string,
+    contentType: string
+  ): Promise<string> {
+    const uploadId = uuidv4();
+    await fsp.mkdir(this.resolvePath(`${MULTIPART_PREFIX}/${uploadId}`), {
+      recursive: true,
+    });
+    return uploadId;
+  }
+
+  async getUploadPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expiresIn: number
+  ): Promise<string> {
+    return this.signUrl('PUT', this.partKey(uploadId, partNumber), expiresIn);
+  }
+
+  async listParts(key: string, uploadId: string): Promise<UploadedPart[]> {
+    const dir = this.resolvePath(`${MULTIPART_PREFIX}/${uploadId}`);
+    const entries = await fsp.readdir(dir).catch(() => null);
+    if (!entries) {
+      throw new Error(`Multipart upload not found: ${uploadId}`);
+    }
+
+    const parts: UploadedPart[] = [];
+    for (const entry of entries) {
+      const partNumber = parseInt(entry, 10);
+      if (!partNumber) {
+        continue;
+      }
+      const data = await fsp.readFile(path.join(dir, entry));
+      parts.push({
+        partNumber,
+        etag: `"${createHash('md5').update(data).digest('hex')}"`,
+        size: data.length,
+      });
+    }
+
+    return parts.sort((a, b) => a.partNumber - b.partNumber);
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadedPart[]
+  ): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fsp.mkdir(path.dirname(filePath), { recursive: true });
+
+    const ordered = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+    const output = fs.createWriteStream(filePath);
+    for (const part of ordered) {
+      await pipeline(
+        fs.createReadStream(
+          this.resolvePath(this.partKey(uploadId, part.partNumber))
+        ),
+        output,
+        { end: false }
+      );
+    }
+    await new Promise<void>(resolve => output.end(() => resolve()));
+
+    await this.abortMultipartUpload(key, uploadId);
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await fsp.rm(this.resolvePath(`${MULTIPART_PREFIX}/${uploadId}`), {
+      recursive: true,
+      force: true,
+    });
+  }
+
+  /**
+   * Returns whether a key addresses a pending multipart part rather than an
+   * object. Part uploads are signed without a content type.
+   */
+  isMultipartPartKey(key: string): boolean {
+    return key.startsWith(`${MULTIPART_PREFIX}/`);
+  }
+
+  /**
+   * Resolves an object key to an absolute path, rejecting keys that would
+   * escape the storage root.
+   */
+  resolvePath(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  /**
+   * Verifies the `expires` and `signature` query parameters of a signed URL.
+   */
+  verifySignature(
+    method: 'GET' | 'PUT',
+    key: string,
+    expires: string,
+    signature: string,
+    contentType = ''
+  ): boolean {
+    const expiresAt = parseInt(expires, 10);
+    if (!expiresAt || expiresAt * 1000 < Date.now() || !signature) {
+      return false;
+    }
+
+    const expected = Buffer.from(
+      this.sign(method, key, expiresAt, contentType)
+    );
+    const actual = Buffer.from(signature);
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+
+  private partKey(uploadId: string, partNumber: number): string {
+    return `${MULTIPART_PREFIX}/${uploadId}/${partNumber}`;
+  }
+
+  private signUrl(
+    method: 'GET' | 'PUT',
+    key: string,
+    expiresIn: number,
+    contentType = ''
+  ): string {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const signature = this.sign(method, key, expires, contentType);
+    return `${this.getPublicUrl(
+      key
+    )}?expires=${expires}&signature=${signature}`;
+  }
+
+  private signPolicy(policy: string): string {
+    return createHmac('sha256', this.signingSecret)
+      .update(`POST\n${policy}`)
+      .digest('hex');
+  }
+
+  private sign(
+    method: string,
+    key: string,
+    expires: number,
+    contentType: string
+  ): string {
+    return createHmac('sha256', this.signingSecret)
+      .update(`${method}\n${key}\n${expires}\n${contentType}`)
+      .digest('hex');
+  }
+}
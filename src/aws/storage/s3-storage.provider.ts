@@ -0,0 +1,233 @@
+// src/aws/storage/s3-storage.provider.ts
+
+import { Inject, Injectable } from '@nestjs/common';
+import AWS from 'aws-sdk';
+import { Readable } from 'stream';
+import {
+  PresignedPost,
+  PutObjectOptions,
+  StorageProvider,
+  StoredObjectInfo,
+  UploadedPart,
+} from './storage.provider';
+
+@Injectable()
+export class S3StorageProvider implements StorageProvider {
+  private readonly cloudFrontDomain: string =
+    process.env.AWS_CLOUDFRONT_URL || 'default-cloudfront-domain';
+
+  constructor(
+    @Inject('S3') private readonly s3: AWS.S3,
+    @Inject('BUCKET_NAME') private readonly bucketName: string
+  ) {}
+
+  async getObject(key: string): Promise<Buffer> {
+    const object = await this.s3
+      .getObject({ Bucket: this.bucketName, Key: key })
+      .promise();
+
+    if (!object.Body) {
+      throw new Error(`S3 object ${key} has no body.`);
+    }
+
+    return Buffer.isBuffer(object.Body)
+      ? object.Body
+      : Buffer.from(object.Body as Uint8Array);
+  }
+
+  getObjectStream(key: string): Readable {
+    return this.s3
+      .getObject({ Bucket: this.bucketName, Key: key })
+      .createReadStream();
+  }
+
+  async getObjectHead(key: string, length: number): Promise<Buffer> {
+    const object = await this.s3
+      .getObject({
+        Bucket: this.bucketName,
+        Key: key,
+        Range: `bytes=0-${length - 1}`,
+      })
+      .promise();
+
+    return Buffer.isBuffer(object.Body)
+      ? object.Body
+      : Buffer.from((object.Body as Uint8Array) ?? []);
+  }
+
+  async putObject(
+    key: string,
+    body: Buffer,
+    options: PutObjectOptions = {}
+  ): Promise<void> {
+    await this.s3
+      .putObject({
+        Bucket: this.bucketName,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+        CacheControl: options.cacheControl,
+      })
+      .promise();
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await this.s3.deleteObject({ Bucket: this.bucketName, Key: key }).promise();
+  }
+
+  async headObject(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const head = await this.s3
+        .headObject({ Bucket: this.bucketName, Key: key })
+        .promise();
+      return {
+        key,
+        size: head.ContentLength ?? 0,
+        contentType: head.ContentType,
+        lastModified: head.LastModified,
+      };
+    } catch (error) {
+      if ((error as AWS.AWSError).code === 'NotFound') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getUploadUrl(
+    key: string,
+    contentType: string,
+    expiresIn: number
+  ): Promise<string> {
+    return this.s3.getSignedUrlPromise('putObject', {
+      Bucket: this.bucketName,
+      Key: key,
+      Expires: expiresIn,
+      ContentType: contentType,
+    });
+  }
+
+  async getUploadPost(
+    key: string,
+    contentType: string,
+    maxBytes: number,
+    expiresIn: number
+  ): Promise<PresignedPost> {
+    return new Promise((resolve, reject) => {
+      this.s3.createPresignedPost(
+        {
+          Bucket: this.bucketName,
+          Fields: { key, 'Content-Type': contentType },
+          Conditions: [
+            ['content-length-range', 1, maxBytes],
+            ['eq', '$Content-Type', contentType],
+          ],
+          Expires: expiresIn,
+        },
+        (err, data) => (err ? reject(err) : resolve(data))
+      );
+    });
+  }
+
+  async getDownloadUrl(key: string, expiresIn: number): Promise<string> {
+    return this.s3.getSignedUrlPromise('getObject', {
+      Bucket: this.bucketName,
+      Key: key,
+      Expires: expiresIn,
+    });
+  }
+
+  getPublicUrl(key: string): string {
+    return `https://${this.cloudFrontDomain}/${key}`;
+  }
+
+  async createMultipartUpload(
+    key: string,
+    contentType: string
+  ): Promise<string> {
+    const upload = await this.s3
+      .createMultipartUpload({
+        Bucket: this.bucketName,
+        Key: key,
+        ContentType: contentType,
+      })
+      .promise();
+
+    if (!upload.UploadId) {
+      throw new Error(`S3 returned no upload ID for ${key}`);
+    }
+    return upload.UploadId;
+  }
+
+  async getUploadPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expiresIn: number
+  ): Promise<string> {
+    return this.s3.getSignedUrlPromise('uploadPart', {
+      Bucket: this.bucketName,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+      Expires: expiresIn,
+    });
+  }
+
+  async listParts(key: string, uploadId: string): Promise<UploadedPart[]> {
+    const parts: UploadedPart[] = [];
+    let marker: number | undefined;
+
+    do {
+      const page = await this.s3
+        .listParts({
+          Bucket: this.bucketName,
+          Key: key,
+          UploadId: uploadId,
+          PartNumberMarker: marker,
+        })
+        .promise();
+
+      for (const part of page.Parts ?? []) {
+        parts.push({
+          partNumber: part.PartNumber!,
+          etag: part.ETag!,
+          size: part.Size,
+        });
+      }
+
+      marker = page.IsTruncated ? page.NextPartNumberMarker : undefined;
+    } while (marker);
+
+    return parts;
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadedPart[]
+  ): Promise<void> {
+    await this.s3
+      .completeMultipartUpload({
+        Bucket: this.bucketName,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: [...parts]
+            .sort((a, b) => a.partNumber - b.partNumber)
+            .map(part => ({ PartNumber: part.partNumber, ETag: part.etag })),
+        },
+      })
+      .promise();
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await this.s3
+      .abortMultipartUpload({
+        Bucket: this.bucketName,
+        Key: key,
+        UploadId: uploadId,
+      })
+      .promise();
+  }
+}
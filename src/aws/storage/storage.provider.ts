@@ -0,0 +1,173 @@
+// src/aws/storage/storage.provider.ts
+
+import { Readable } from 'stream';
+
+/**
+ * Key prefix of objects that must never be served publicly, such as original
+ * uploads with their EXIF data. The CDN distribution does not serve this
+ * prefix, and the local driver only serves it through signed URLs; owners
+ * reach these objects through `getDownloadUrl`.
+ */
+export const PRIVATE_KEY_PREFIX = 'private/';
+
+/**
+ * Returns whether an object is kept out of public delivery.
+ */
+export function isPrivateKey(key: string): boolean {
+  return key.startsWith(PRIVATE_KEY_PREFIX);
+}
+
+/**
+ * Moves a key under the private prefix.
+ */
+export function toPrivateKey(key: string): string {
+  return isPrivateKey(key) ? key : `${PRIVATE_KEY_PREFIX}${key}`;
+}
+
+/**
+ * Returns the public counterpart of a key, from which the keys of publicly
+ * served derivatives are built.
+ */
+export function toPublicKey(key: string): string {
+  return isPrivateKey(key) ? key.slice(PRIVATE_KEY_PREFIX.length) : key;
+}
+
+/**
+ * Options applied when writing an object to storage.
+ */
+export interface PutObjectOptions {
+  contentType?: string;
+  cacheControl?: string;
+}
+
+/**
+ * Basic information about a stored object.
+ */
+export interface StoredObjectInfo {
+  key: string;
+  size: number;
+  contentType?: string;
+  lastModified?: Date;
+}
+
+/**
+ * A part of a multipart upload.
+ */
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size?: number;
+}
+
+/**
+ * A browser-style form upload: `POST` the fields plus a trailing `file` field
+ * as `multipart/form-data` to the URL.
+ */
+export interface PresignedPost {
+  url: string;
+  fields: Record<string, string>;
+}
+
+/**
+ * Storage backend used by the media pipeline. Injected under the `'STORAGE'`
+ * token; the concrete driver is selected by `storage.driver` in configuration.
+ */
+export interface StorageProvider {
+  /**
+   * Reads an entire object into memory.
+   */
+  getObject(key: string): Promise<Buffer>;
+
+  /**
+   * Streams an object, for content too large to hold in memory.
+   */
+  getObjectStream(key: string): Readable;
+
+  /**
+   * Reads up to `length` bytes from the start of an object.
+   */
+  getObjectHead(key: string, length: number): Promise<Buffer>;
+
+  /**
+   * Writes an object, replacing any existing object at the same key.
+   */
+  putObject(
+    key: string,
+    body: Buffer,
+    options?: PutObjectOptions
+  ): Promise<void>;
+
+  /**
+   * Deletes an object. Deleting a missing object is not an error.
+   */
+  deleteObject(key: string): Promise<void>;
+
+  /**
+   * Returns object information, or `null` if the object does not exist.
+   */
+  headObject(key: string): Promise<StoredObjectInfo | null>;
+
+  /**
+   * Returns a time-limited URL a client can `PUT` the object to.
+   */
+  getUploadUrl(
+    key: string,
+    contentType: string,
+    expiresIn: number
+  ): Promise<string>;
+
+  /**
+   * Returns a time-limited form upload that only accepts the exact content
+   * type and a body of at most `maxBytes`.
+   */
+  getUploadPost(
+    key: string,
+    contentType: string,
+    maxBytes: number,
+    expiresIn: number
+  ): Promise<PresignedPost>;
+
+  /**
+   * Returns a time-limited URL a client can `GET` the object from.
+   */
+  getDownloadUrl(key: string, expiresIn: number): Promise<string>;
+
+  /**
+   * Returns the public (CDN) URL for an object.
+   */
+  getPublicUrl(key: string): string;
+
+  /**
+   * Starts a multipart upload and returns its upload ID.
+   */
+  createMultipartUpload(key: string, contentType: string): Promise<string>;
+
+  /**
+   * Returns a time-limited URL a client can `PUT` a single part to.
+   */
+  getUploadPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    expiresIn: number
+  ): Promise<string>;
+
+  /**
+   * Lists the parts uploaded so far, ordered by part number.
+   */
+  listParts(key: string, uploadId: string): Promise<UploadedPart[]>;
+
+  /**
+   * Assembles the given parts into the final object.
+   */
+  completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: UploadedPart[]
+  ): Promise<void>;
+
+  /**
+   * Aborts a multipart upload and discards its parts.
+   */
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+}
@@ -0,0 +1,179 @@
+// src/aws/transcoding/ffmpeg-transcoding.provider.ts
+
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import { Inject, Injectable } from '@nestjs/common';
+import { ffmpeg } from 'src/common/ffmpeg';
+import { LoggerService } from 'src/logger/logger.service';
+import { StorageProvider } from '../storage/storage.provider';
+import {
+  TranscodingJob,
+  TranscodingOutput,
+  TranscodingProvider,
+} from './transcoding.provider';
+import {
+  TranscodingProfile,
+  TranscodingRendition,
+} from './transcoding-profile';
+
+const MASTER_PLAYLIST = 'master.m3u8';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+  '.m4s': 'video/iso.segment',
+  '.mp4': 'video/mp4', // fMP4 initialization segments
+};
+
+/**
+ * Transcodes videos with ffmpeg in the worker process, for self-hosted and
+ * development environments and as a fallback during MediaConvert outages.
+ * Produces the job's HLS renditions and uploads the master playlist, variant
+ * playlists and segments to storage, listing them in the output so they can
+ * be charged to the media. DASH output is not supported.
+ */
+@Injectable()
+export class FfmpegTranscodingProvider implements TranscodingProvider {
+  constructor(
+    @Inject('STORAGE') private readonly storage: StorageProvider,
+    private readonly logger: LoggerService
+  ) {}
+
+  async transcode(job: TranscodingJob): Promise<TranscodingOutput> {
+    const { profile, renditions, hasAudio } = job;
+    this.logger.log(
+      `Transcoding ${job.key} to HLS with ffmpeg (profile: ${profile.name})`
+    );
+    if (profile.dash) {
+      this.logger.warn(
+        `The ffmpeg transcoder writes HLS only; skipping DASH output for ${job.key}`
+      );
+    }
+    const workDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'hls-'));
+
+    try {
+      const inputPath = job.localPath ?? path.join(workDir, 'input');
+      if (!job.localPath) {
+        await pipeline(
+          this.storage.getObjectStream(job.key),
+          fs.createWriteStream(inputPath)
+        );
+      }
+
+      const outputDir = path.join(workDir, 'output');
+      await fsp.mkdir(outputDir);
+
+      const variants: string[] = [];
+      for (const rendition of renditions) {
+        await this.encode(inputPath, outputDir, profile, rendition, hasAudio);
+
+        const bandwidth =
+          (rendition.videoBitrate + (hasAudio ? rendition.audioBitrate : 0)) *
+          1000;
+        variants.push(
+          `#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},RESOLUTION=${rendition.width}x${rendition.height}`,
+          `${rendition.name}.m3u8`
+        );
+      }
+      await fsp.writeFile(
+        path.join(outputDir, MASTER_PLAYLIST),
+        [
+          '#EXTM3U',
+          // fMP4 segments, used for HEVC, need version 7
+          `#EXT-X-VERSION:${profile.codec === 'hevc' ? 7 : 3}`,
+          ...variants,
+          '',
+        ].join('\n')
+      );
+
+      const objects: TranscodingOutput['objects'] = [];
+      for (const file of await fsp.readdir(outputDir)) {
+        const key = `${job.outputPrefix}${file}`;
+        const body = await fsp.readFile(path.join(outputDir, file));
+        await this.storage.putObject(key, body, {
+          contentType: CONTENT_TYPES[path.extname(file)],
+        });
+        objects.push({ key, bytes: body.length });
+      }
+
+      this.logger.log(
+        `HLS output uploaded for ${job.key}: ${renditions
+          .map(rendition => rendition.name)
+          .join(', ')}`
+      );
+      return {
+        playlistKey: `${job.outputPrefix}${MASTER_PLAYLIST}`,
+        objects,
+      };
+    } finally {
+      await fsp.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Encodes one rendition as an H.264 or HEVC variant playlist with AAC
+   * audio. HEVC is segmented as fMP4, which Apple players require. Keyframes
+   * are forced at segment boundaries so every rendition switches cleanly.
+   */
+  private encode(
+    inputPath: string,
+    outputDir: string,
+    { codec, segmentSeconds }: TranscodingProfile,
+    rendition: TranscodingRendition,
+    hasAudio: boolean
+  ): Promise<void> {
+    const fmp4 = codec === 'hevc';
+    return new Promise((resolve, reject) => {
+      const command = ffmpeg(inputPath)
+        .videoCodec(codec === 'hevc' ? 'libx265' : 'libx264')
+        .outputOptions([
+          `-vf scale=${rendition.width}:${rendition.height}`,
+          '-preset veryfast',
+          '-profile:v main',
+          '-pix_fmt yuv420p',
+          ...(codec === 'hevc' ? ['-tag:v hvc1'] : []), // Required by Apple players
+          `-b:v ${rendition.videoBitrate}k`,
+          `-maxrate ${Math.round(rendition.videoBitrate * 1.07)}k`,
+          `-bufsize ${Math.round(rendition.videoBitrate * 1.5)}k`,
+          `-force_key_frames expr:gte(t,n_forced*${segmentSeconds})`,
+          '-f hls',
+          `-hls_time ${segmentSeconds}`,
+          '-hls_playlist_type vod',
+          ...(fmp4
+            ? [
+                '-hls_segment_type fmp4',
+                `-hls_fmp4_init_filename ${rendition.name}_init.mp4`,
+              ]
+            : []),
+          `-hls_segment_filename ${path.join(
+            outputDir,
+            `${rendition.name}_%03d.${fmp4 ? 'm4s' : 'ts'}`
+          )}`,
+        ]);
+
+      if (hasAudio) {
+        command
+          .audioCodec('aac')
+          .audioBitrate(rendition.audioBitrate)
+          .audioChannels(2);
+      } else {
+        command.noAudio();
+      }
+
+      command
+        .output(path.join(outputDir, `${rendition.name}.m3u8`))
+        .on('end', () => resolve())
+        .on('error', error =>
+          reject(
+            new Error(
+              `ffmpeg failed for the ${rendition.name} rendition: ${error.message}`
+            )
+          )
+        )
+        .run();
+    });
+  }
+}
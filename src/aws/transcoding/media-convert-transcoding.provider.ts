@@ -0,0 +1,444 @@
+// src/aws/transcoding/media-convert-transcoding.provider.ts
+
+import * as path from 'path';
+import AWS from 'aws-sdk';
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LoggerService } from 'src/logger/logger.service';
+import {
+  TranscodingProfile,
+  TranscodingRendition,
+} from './transcoding-profile';
+import {
+  TranscodingJob,
+  TranscodingOutput,
+  TranscodingProvider,
+  TranscodingUpdate,
+} from './transcoding.provider';
+
+const JOBS_TABLE = 'transcoding_jobs';
+
+/**
+ * A submitted job, as tracked in DynamoDB and attached to the job as user
+ * metadata.
+ */
+interface MediaConvertJobRecord extends Omit<TranscodingOutput, 'objects'> {
+  mediaId: string;
+  videoKey: string;
+}
+
+/**
+ * EventBridge "MediaConvert Job State Change" event, as delivered to SQS.
+ */
+interface MediaConvertJobEvent {
+  source?: string;
+  detail?: {
+    jobId: string;
+    status: string; // e.g. PROGRESSING, STATUS_UPDATE, COMPLETE, ERROR
+    userMetadata?: Partial<MediaConvertJobRecord>;
+    jobProgress?: { jobPercentComplete?: number };
+    errorMessage?: string;
+  };
+}
+
+/**
+ * Transcodes videos with AWS MediaConvert. Jobs run in the background and
+ * report their progress through job state-change events; jobs are also
+ * tracked in DynamoDB so polling can reconcile any events that were missed.
+ */
+@Injectable()
+export class MediaConvertTranscodingProvider implements TranscodingProvider {
+  private readonly roleArn: string;
+  private client?: Promise<AWS.MediaConvert>;
+
+  constructor(
+    @Inject('MEDIA_CONVERT') private readonly mediaConvert: AWS.MediaConvert,
+    @Inject('DYNAMODB') private readonly dynamoDB: AWS.DynamoDB.DocumentClient,
+    @Inject('BUCKET_NAME') private readonly bucket: string,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService
+  ) {
+    this.roleArn = this.configService.get<string>(
+      'transcoding.mediaConvertRoleArn'
+    )!;
+  }
+
+  async transcode(job: TranscodingJob): Promise<TranscodingOutput | null> {
+    this.logger.log(
+      `Submitting MediaConvert job for: ${job.key} (profile: ${job.profile.name})`
+    );
+    const client = await this.getClient();
+
+    // MediaConvert names manifests after the input file
+    const name = path.parse(job.key).name;
+    const cmafPrefix = `${job.outputPrefix}cmaf/`;
+    const record: MediaConvertJobRecord = {
+      mediaId: job.mediaId,
+      videoKey: job.key,
+      // HEVC is only packaged as CMAF, which Apple players require for it
+      playlistKey:
+        job.profile.codec === 'hevc'
+          ? `${cmafPrefix}${name}.m3u8`
+          : `${job.outputPrefix}${name}.m3u8`,
+      ...(job.profile.dash && {
+        dashManifestKey: `${cmafPrefix}${name}.mpd`,
+      }),
+    };
+
+    // Build the job parameters
+    const jobParams: AWS.MediaConvert.CreateJobRequest = {
+      Role: this.roleArn,
+      UserMetadata: { ...record }, // Echoed back in job state-change events
+      Settings: {
+        Inputs: [
+          {
+            FileInput: `s3://${this.bucket}/${job.key}`,
+            ...(job.hasAudio && {
+              AudioSelectors: {
+                'Audio Selector 1': { DefaultSelection: 'DEFAULT' },
+              },
+            }),
+          },
+        ],
+        OutputGroups: this.buildOutputGroups(job, cmafPrefix),
+      },
+      StatusUpdateInterval: 'SECONDS_10',
+    };
+
+    const jobResponse = await client.createJob(jobParams).promise();
+    if (!jobResponse.Job?.Id) {
+      throw new Error('MediaConvert job creation returned an undefined Job.');
+    }
+
+    this.logger.log(
+      `MediaConvert job created successfully: ${jobResponse.Job.Id}`
+    );
+    await this.saveTranscodingJob(jobResponse.Job.Id, record);
+    return null;
+  }
+
+  /**
+   * Reconciles jobs still marked in progress in DynamoDB, in case their
+   * completion event was missed.
+   */
+  async pollJobs(
+    onUpdate: (update: TranscodingUpdate) => Promise<void>
+  ): Promise<void> {
+    this.logger.log('Reconciling in-progress MediaConvert jobs...');
+    const jobs = await this.dynamoDB
+      .scan({
+        TableName: JOBS_TABLE,
+        FilterExpression: '#status = :status',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':status': 'IN_PROGRESS' },
+      })
+      .promise();
+
+    for (const item of jobs.Items || []) {
+      try {
+        await this.checkJobStatus(item, onUpdate);
+      } catch (error) {
+        this.logger.error(
+          `Failed to check MediaConvert job status for: ${item.jobId}`,
+          (error as any).stack
+        );
+      }
+    }
+  }
+
+  async handleJobEvent(
+    event: unknown,
+    onUpdate: (update: TranscodingUpdate) => Promise<void>
+  ): Promise<void> {
+    const { source, detail } = event as MediaConvertJobEvent;
+    if (source !== 'aws.mediaconvert' || !detail?.jobId) {
+      this.logger.warn(`Ignoring unexpected transcoding event from ${source}`);
+      return;
+    }
+
+    const { jobId, status, userMetadata, jobProgress, errorMessage } = detail;
+    const record = await this.findJob(jobId, userMetadata);
+    if (!record) {
+      this.logger.warn(`Ignoring event for unknown MediaConvert job ${jobId}`);
+      return;
+    }
+
+    this.logger.log(`MediaConvert job ${jobId} event: ${status}`);
+    if (status === 'PROGRESSING' || status === 'STATUS_UPDATE') {
+      await onUpdate({
+        mediaId: record.mediaId,
+        key: record.videoKey,
+        status: 'progressing',
+        percentComplete: jobProgress?.jobPercentComplete ?? 0,
+      });
+      return;
+    }
+
+    await this.reportJob(jobId, status, errorMessage, record, onUpdate);
+  }
+
+  /**
+   * Builds the output groups for a job's profile: an HLS group with MPEG-TS
+   * segments for H.264, and a CMAF group carrying the HEVC HLS manifest
+   * and/or the DASH manifest.
+   */
+  private buildOutputGroups(
+    { outputPrefix, profile, renditions, hasAudio }: TranscodingJob,
+    cmafPrefix: string
+  ): AWS.MediaConvert.OutputGroup[] {
+    const groups: AWS.MediaConvert.OutputGroup[] = [];
+    const hls = profile.codec === 'h264';
+    const cmaf = profile.codec === 'hevc' || profile.dash;
+
+    if (hls) {
+      groups.push({
+        Name: 'Apple HLS',
+        OutputGroupSettings: {
+          Type: 'HLS_GROUP_SETTINGS',
+          HlsGroupSettings: {
+            Destination: `s3://${this.bucket}/${outputPrefix}`,
+            SegmentLength: profile.segmentSeconds,
+            MinSegmentLength: 0,
+          },
+        },
+        Outputs: renditions.map(rendition => ({
+          NameModifier: `_${rendition.name}`,
+          ContainerSettings: { Container: 'M3U8' },
+          VideoDescription: this.videoDescription(profile, rendition),
+          ...(hasAudio && {
+            AudioDescriptions: [this.audioDescription(rendition)],
+          }),
+        })),
+      });
+    }
+
+    if (cmaf) {
+      groups.push({
+        Name: 'CMAF',
+        OutputGroupSettings: {
+          Type: 'CMAF_GROUP_SETTINGS',
+          CmafGroupSettings: {
+            Destination: `s3://${this.bucket}/${cmafPrefix}`,
+            SegmentLength: profile.segmentSeconds,
+            FragmentLength: Math.min(2, profile.segmentSeconds),
+            WriteHlsManifest: hls ? 'DISABLED' : 'ENABLED',
+            WriteDashManifest: profile.dash ? 'ENABLED' : 'DISABLED',
+          },
+        },
+        // CMAF outputs carry either video or audio
+        Outputs: [
+          ...renditions.map(rendition => ({
+            NameModifier: `_${rendition.name}`,
+            ContainerSettings: { Container: 'CMFC' },
+            VideoDescription: this.videoDescription(profile, rendition),
+          })),
+          ...(hasAudio
+            ? [
+                {
+                  NameModifier: '_audio',
+                  ContainerSettings: { Container: 'CMFC' },
+                  AudioDescriptions: [this.audioDescription(renditions[0])],
+                },
+              ]
+            : []),
+        ],
+      });
+    }
+
+    return groups;
+  }
+
+  private videoDescription(
+    { codec, segmentSeconds }: TranscodingProfile,
+    { width, height, videoBitrate }: TranscodingRendition
+  ): AWS.MediaConvert.VideoDescription {
+    const rateControl = {
+      RateControlMode: 'QVBR',
+      MaxBitrate: videoBitrate * 1000,
+      GopSize: segmentSeconds,
+      GopSizeUnits: 'SECONDS',
+    };
+    return {
+      Width: width,
+      Height: height,
+      CodecSettings:
+        codec === 'hevc'
+          ? {
+              Codec: 'H_265',
+              H265Settings: {
+                ...rateControl,
+                CodecProfile: 'MAIN_MAIN',
+                WriteMp4PackagingType: 'HVC1',
+              },
+            }
+          : {
+              Codec: 'H_264',
+              H264Settings: { ...rateControl, CodecProfile: 'MAIN' },
+            },
+    };
+  }
+
+  private audioDescription({
+    audioBitrate,
+  }: TranscodingRendition): AWS.MediaConvert.AudioDescription {
+    return {
+      CodecSettings: {
+        Codec: 'AAC',
+        AacSettings: {
+          Bitrate: audioBitrate * 1000,
+          CodingMode: 'CODING_MODE_2_0',
+          SampleRate: 48000,
+        },
+      },
+    };
+  }
+
+  /**
+   * Returns a MediaConvert client for the account-specific endpoint, which
+   * MediaConvert requires for every call but endpoint discovery.
+   */
+  private getClient(): Promise<AWS.MediaConvert> {
+    this.client ??= this.getMediaConvertEndpoint()
+      .then(
+        endpoint =>
+          new AWS.MediaConvert({
+            region: this.configService.get<string>('aws.region') || 'eu-west-2',
+            endpoint,
+          })
+      )
+      .catch(error => {
+        this.client = undefined; // Retry discovery on the next call
+        throw error;
+      });
+    return this.client;
+  }
+
+  /**
+   * Retrieves the AWS MediaConvert endpoint.
+   */
+  private async getMediaConvertEndpoint(): Promise<string> {
+    const response = await this.mediaConvert.describeEndpoints().promise();
+    const endpoint = response.Endpoints?.[0]?.Url;
+    if (!endpoint) {
+      throw new Error('No MediaConvert endpoints found');
+    }
+    this.logger.log(`Retrieved MediaConvert endpoint: ${endpoint}`);
+    return endpoint;
+  }
+
+  /**
+   * Saves a transcoding job's status to DynamoDB.
+   */
+  private async saveTranscodingJob(
+    jobId: string,
+    record: MediaConvertJobRecord
+  ): Promise<void> {
+    await this.dynamoDB
+      .put({
+        TableName: JOBS_TABLE,
+        Item: {
+          jobId,
+          status: 'IN_PROGRESS',
+          ...record,
+          createdAt: new Date().toISOString(),
+        },
+      })
+      .promise();
+    this.logger.log(`Saved MediaConvert job ${jobId} in DynamoDB`);
+  }
+
+  /**
+   * Identifies the media a job belongs to, from the job's user metadata or,
+   * for jobs submitted without it, from DynamoDB.
+   */
+  private async findJob(
+    jobId: string,
+    userMetadata?: Partial<MediaConvertJobRecord>
+  ): Promise<MediaConvertJobRecord | null> {
+    const { mediaId, videoKey, playlistKey, dashManifestKey } =
+      userMetadata ?? {};
+    if (mediaId && videoKey && playlistKey) {
+      return { mediaId, videoKey, playlistKey, dashManifestKey };
+    }
+
+    const { Item: item } = await this.dynamoDB
+      .get({ TableName: JOBS_TABLE, Key: { jobId } })
+      .promise();
+    return item ? (item as MediaConvertJobRecord) : null;
+  }
+
+  /**
+   * Checks the status of a MediaConvert job and reports it if it has
+   * finished.
+   */
+  private async checkJobStatus(
+    item: AWS.DynamoDB.DocumentClient.AttributeMap,
+    onUpdate: (update: TranscodingUpdate) => Promise<void>
+  ): Promise<void> {
+    const { jobId } = item;
+    const client = await this.getClient();
+    const { Job: job } = await client.getJob({ Id: jobId }).promise();
+    if (!job) {
+      this.logger.error(`MediaConvert job ${jobId} not found.`);
+      return;
+    }
+
+    this.logger.log(`MediaConvert job ${jobId} status: ${job.Status}`);
+    await this.reportJob(
+      jobId,
+      job.Status!,
+      job.ErrorMessage,
+      item as MediaConvertJobRecord,
+      onUpdate
+    );
+  }
+
+  /**
+   * Reports a finished job and records its final status in DynamoDB, so
+   * reconciliation stops checking it. Jobs that are still running are left
+   * alone.
+   */
+  private async reportJob(
+    jobId: string,
+    status: string,
+    errorMessage: string | undefined,
+    {
+      mediaId,
+      videoKey: key,
+      playlistKey,
+      dashManifestKey,
+    }: MediaConvertJobRecord,
+    onUpdate: (update: TranscodingUpdate) => Promise<void>
+  ): Promise<void> {
+    if (status === 'COMPLETE') {
+      await onUpdate({
+        mediaId,
+        key,
+        status: 'complete',
+        playlistKey,
+        dashManifestKey,
+      });
+    } else if (status === 'ERROR' || status === 'CANCELED') {
+      await onUpdate({
+        mediaId,
+        key,
+        status: 'failed',
+        error:
+          errorMessage ||
+          `MediaConvert job ${jobId} ended with status ${status}`,
+      });
+    } else {
+      return;
+    }
+
+    await this.dynamoDB
+      .update({
+        TableName: JOBS_TABLE,
+        Key: { jobId },
+        UpdateExpression: 'SET #status = :status',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':status': status },
+      })
+      .promise();
+  }
+}
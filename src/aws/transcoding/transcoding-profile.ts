@@ -0,0 +1,106 @@
+// src/aws/transcoding/transcoding-profile.ts
+
+import { MediaType } from '../../common/enums/media-type.enum';
+
+/**
+ * One rung of a profile's bitrate ladder. The height is that of landscape
+ * video; portrait video uses it as its width. Bitrates are in kbit/s.
+ */
+export interface TranscodingRung {
+  name: string;
+  height: number;
+  videoBitrate: number;
+  audioBitrate: number;
+}
+
+/**
+ * A rung chosen for a particular video, sized to its aspect ratio and
+ * orientation.
+ */
+export interface TranscodingRendition extends TranscodingRung {
+  width: number;
+}
+
+/**
+ * Named set of transcoding settings, configured under `transcoding.profiles`.
+ */
+export interface TranscodingProfile {
+  name: string;
+  codec: 'h264' | 'hevc';
+  segmentSeconds: number;
+  dash: boolean; // Also write a DASH manifest over CMAF segments
+  renditions: TranscodingRung[]; // Highest first
+  /**
+   * Sources the profile applies to. Every criterion given must hold; a
+   * profile without criteria matches any source.
+   */
+  match?: {
+    mediaTypes?: MediaType[];
+    maxDuration?: number; // in seconds
+    minResolution?: number; // Shorter side in pixels, e.g. 1080 for 1080p
+    maxResolution?: number;
+  };
+}
+
+/**
+ * Displayed size and duration of the video being transcoded.
+ */
+export interface TranscodingSource {
+  mediaType: MediaType;
+  width: number;
+  height: number;
+  duration: number;
+}
+
+/**
+ * Picks the first profile whose criteria match the source, or the last
+ * profile if none do, and the renditions of its ladder to produce. Rungs
+ * above the source resolution are dropped so nothing is upscaled; sources
+ * smaller than the lowest rung get a single rendition at their own size.
+ */
+export function selectTranscodingProfile(
+  profiles: TranscodingProfile[],
+  source: TranscodingSource
+): { profile: TranscodingProfile; renditions: TranscodingRendition[] } {
+  const resolution = Math.min(source.width, source.height);
+  const portrait = source.height > source.width;
+
+  const profile =
+    profiles.find(({ match = {} }) => {
+      const { mediaTypes, maxDuration, minResolution, maxResolution } = match;
+      return (
+        (!mediaTypes || mediaTypes.includes(source.mediaType)) &&
+        (maxDuration === undefined || source.duration <= maxDuration) &&
+        (minResolution === undefined || resolution >= minResolution) &&
+        (maxResolution === undefined || resolution <= maxResolution)
+      );
+    }) ?? profiles[profiles.length - 1];
+
+  let rungs = profile.renditions.filter(rung => rung.height <= resolution);
+  if (!rungs.length) {
+    const lowest = profile.renditions[profile.renditions.length - 1];
+    rungs = [{ ...lowest, height: resolution }];
+  }
+
+  return {
+    profile,
+    renditions: rungs.map(rung => {
+      const short = even(rung.height);
+      const long = even(
+        (rung.height * Math.max(source.width, source.height)) / resolution
+      );
+      return {
+        ...rung,
+        width: portrait ? short : long,
+        height: portrait ? long : short,
+      };
+    }),
+  };
+}
+
+/**
+ * Rounds to the nearest even number of pixels, as the encoders require.
+ */
+function even(value: number): number {
+  return Math.max(2, Math.round(value / 2) * 2);
+}
@@ -0,0 +1,67 @@
+// src/aws/transcoding/transcoding.provider.ts
+
+import {
+  TranscodingProfile,
+  TranscodingRendition,
+} from './transcoding-profile';
+
+/**
+ * A video to transcode into HLS, with the profile chosen for it.
+ */
+export interface TranscodingJob {
+  mediaId: string;
+  key: string; // Storage key of the uploaded video
+  localPath?: string; // Copy of the uploaded video on local disk, if the caller has one
+  outputPrefix: string; // Storage key prefix, ending in '/', for the playlists and segments
+  profile: TranscodingProfile;
+  renditions: TranscodingRendition[]; // Rungs of the profile's ladder to produce, highest first
+  hasAudio: boolean;
+}
+
+/**
+ * Where a finished transcoding job wrote its output.
+ */
+export interface TranscodingOutput {
+  playlistKey: string; // HLS master playlist
+  dashManifestKey?: string; // DASH manifest, if the profile asks for one
+  objects?: { key: string; bytes: number }[]; // Every object written, if the provider stored the output itself
+}
+
+/**
+ * Progress or outcome of a transcoding job that runs in the background.
+ */
+export type TranscodingUpdate = { mediaId: string; key: string } & (
+  | { status: 'progressing'; percentComplete: number }
+  | ({ status: 'complete' } & TranscodingOutput)
+  | { status: 'failed'; error: string }
+);
+
+/**
+ * Video transcoding backend. Injected under the `'TRANSCODER'` token; the
+ * concrete driver is selected by `transcoding.driver` in configuration.
+ */
+export interface TranscodingProvider {
+  /**
+   * Transcodes a video into the job's renditions. Returns the output if
+   * transcoding finished during the call, or `null` if it continues in the
+   * background and is reported through `pollJobs`.
+   */
+  transcode(job: TranscodingJob): Promise<TranscodingOutput | null>;
+
+  /**
+   * Reports background jobs that have finished since the last poll. A job is
+   * only marked as reported once `onUpdate` resolves.
+   */
+  pollJobs?(
+    onUpdate: (update: TranscodingUpdate) => Promise<void>
+  ): Promise<void>;
+
+  /**
+   * Reports the update carried by a job state-change event pushed by the
+   * transcoding service. Events for unknown jobs are ignored.
+   */
+  handleJobEvent?(
+    event: unknown,
+    onUpdate: (update: TranscodingUpdate) => Promise<void>
+  ): Promise<void>;
+}
@@ -1,243 +1,204 @@
 import { forwardRef, Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Cron } from '@nestjs/schedule';
-import AWS from 'aws-sdk';
 import { LoggerService } from 'src/logger/logger.service';
 import { EntityManager, Connection } from 'typeorm';
 import { Media } from 'src/media/media.entity'; // Ensure the Media entity is imported
 import { MediaService } from 'src/media/media.service';
+import { MediaStatus } from 'src/common/enums/media-status.enum';
+import { CaptionsService } from 'src/captions/captions.service';
+import { UsageService } from 'src/usage/usage.service';
+import { UsageKind } from 'src/common/enums/usage-kind.enum';
+import { StorageProvider, toPublicKey } from './storage/storage.provider';
+import {
+  TranscodingOutput,
+  TranscodingProvider,
+  TranscodingUpdate,
+} from './transcoding/transcoding.provider';
+import {
+  selectTranscodingProfile,
+  TranscodingProfile,
+} from './transcoding/transcoding-profile';
 
 @Injectable()
 export class VideoTranscoder {
-  private readonly inputBucket = 'ecoh-media';
-  private readonly outputBucket = 'ecoh-media';
   private readonly outputPrefix = 'video/transcoded';
   private readonly inputPrefix = 'video';
-  private readonly templateName = 'Ecoh-Transcoding-Template';
-  private readonly cloudFrontDomain: string =
-    process.env.AWS_CLOUDFRONT_URL || 'https://default-cloudfront-domain';
-  private readonly region = 'eu-west-2';
 
   constructor(
-    @Inject('MEDIA_CONVERT') private readonly mediaConvert: AWS.MediaConvert,
-    @Inject('DYNAMODB') private readonly dynamoDB: AWS.DynamoDB.DocumentClient,
+    @Inject('TRANSCODER') private readonly transcoder: TranscodingProvider,
+    @Inject('STORAGE') private readonly storage: StorageProvider,
     @Inject(forwardRef(() => MediaService))
     private readonly mediaService: MediaService,
+    private readonly captionsService: CaptionsService,
+    private readonly usageService: UsageService,
     private connection: Connection,
+    private readonly configService: ConfigService,
     private readonly logger: LoggerService
   ) {}
 
   /**
-   * Submits a video for transcoding using AWS MediaConvert.
-   * @param key The S3 object key of the video to be transcoded (e.g., "video/user123/myvideo.mp4").
+   * Transcodes a video with the configured transcoding provider, using the
+   * profile that fits the probed source. The chosen profile and renditions
+   * are recorded on the media, along with its metadata. Returns `true` if
+   * transcoding finished during the call, in which case the media's URLs
+   * have been updated in place; otherwise the job completes in the
+   * background. `localPath` is a copy of the video already on local disk.
    */
-  async transcodeVideo(mediaId: string, key: string): Promise<void> {
-    this.logger.log(`Submitting MediaConvert job for: ${key}`);
-
-    if (!key.startsWith(`${this.inputPrefix}/`)) {
+  async transcodeVideo(media: Media, localPath: string): Promise<boolean> {
+    const { key } = media;
+    if (!toPublicKey(key).startsWith(`${this.inputPrefix}/`)) {
       this.logger.error(
         `Invalid video key: ${key}. Must be in '${this.inputPrefix}/'`
       );
       throw new Error('Invalid video path.');
     }
 
+    const metadata = await this.mediaService.extractVideoMetadata(localPath);
+    if (!metadata.width || !metadata.height) {
+      throw new Error('Transcoding failed: the video could not be probed');
+    }
+    media.metadata = { ...media.metadata, ...metadata };
+
+    // Phone videos are often stored sideways with a rotation applied on playback
+    const sideways = Math.abs(Number(metadata.rotation)) % 180 === 90;
+    const { profile, renditions } = selectTranscodingProfile(
+      this.configService.get<TranscodingProfile[]>('transcoding.profiles')!,
+      {
+        mediaType: media.type,
+        width: sideways ? metadata.height : metadata.width,
+        height: sideways ? metadata.width : metadata.height,
+        duration: metadata.duration || 0,
+      }
+    );
+    media.transcodingProfile = profile.name;
+    media.renditions = renditions;
+    this.logger.log(
+      `Transcoding profile for ${key}: ${profile.name} (${renditions
+        .map(rendition => rendition.name)
+        .join(', ')})`
+    );
+
+    let output;
     try {
-      // Get the MediaConvert endpoint
-      const endpoint = await this.getMediaConvertEndpoint();
-      const mediaConvertWithEndpoint = new AWS.MediaConvert({
-        region: this.region,
-        endpoint: endpoint,
+      output = await this.transcoder.transcode({
+        mediaId: media.id,
+        key,
+        localPath,
+        outputPrefix: `${this.outputPrefix}/${this.extractFileName(
+          media.uploadKey ?? key
+        )}/`,
+        profile,
+        renditions,
+        hasAudio: metadata.hasAudio ?? true,
       });
-
-      // Build the job parameters
-      const jobParams: AWS.MediaConvert.CreateJobRequest = {
-        Role: 'arn:aws:iam::529088281346:role/MediaConvertRole',
-        JobTemplate: this.templateName,
-        Settings: {
-          Inputs: [{ FileInput: `s3://${this.inputBucket}/${key}` }],
-          OutputGroups: [
-            {
-              Name: 'Apple HLS',
-              OutputGroupSettings: {
-                HlsGroupSettings: {
-                  Destination: `s3://${this.outputBucket}/${
-                    this.outputPrefix
-                  }/${this.extractFileName(key)}/`,
-                  SegmentLength: 6,
-                  MinSegmentLength: 0,
-                },
-              },
-            },
-          ],
-        },
-        StatusUpdateInterval: 'SECONDS_10',
-      };
-
-      const jobResponse = await mediaConvertWithEndpoint
-        .createJob(jobParams)
-        .promise();
-
-      if (jobResponse.Job?.Id) {
-        this.logger.log(
-          `MediaConvert job created successfully: ${jobResponse.Job.Id}`
-        );
-        await this.saveTranscodingJob(jobResponse.Job.Id, key, mediaId);
-      } else {
-        throw new Error('MediaConvert job creation returned an undefined Job.');
-      }
     } catch (error) {
       this.logger.error(
-        `Failed to start MediaConvert job for: ${key}`,
-        undefined,
-        error as any
-      );
-      throw new Error('MediaConvert transcoding failed');
-    }
-  }
-
-  /**
-   * Retrieves the AWS MediaConvert endpoint.
-   */
-  async getMediaConvertEndpoint(): Promise<string> {
-    if (typeof this.mediaConvert.config.endpoint === 'string') {
-      this.logger.log(
-        `Using cached MediaConvert endpoint: ${this.mediaConvert.config.endpoint}`
+        `Failed to transcode video: ${key}`,
+        (error as any).stack
       );
-      return this.mediaConvert.config.endpoint;
+      throw new Error(`Transcoding failed: ${(error as Error).message}`);
     }
-    const response = await this.mediaConvert.describeEndpoints().promise();
-    if (!response.Endpoints?.length) {
-      throw new Error('No MediaConvert endpoints found');
+    if (!output) {
+      media.transcodingProgress = 0;
+      return false;
     }
-    const endpoint = response.Endpoints[0].Url;
-    if (!endpoint) {
-      throw new Error('Endpoint URL is undefined');
+
+    // Charge the output to the media so it is deleted along with it
+    for (const { key: objectKey, bytes } of output.objects ?? []) {
+      await this.usageService.recordObject({
+        userId: media.uploadedBy,
+        mediaId: media.id,
+        mediaType: media.type,
+        kind: UsageKind.DERIVATIVE,
+        key: objectKey,
+        bytes,
+      });
     }
-    this.mediaConvert.config.endpoint = endpoint;
-    this.logger.log(`Retrieved MediaConvert endpoint: ${endpoint}`);
-    return endpoint;
-  }
 
-  /**
-   * Saves a transcoding job's status to DynamoDB.
-   */
-  private async saveTranscodingJob(
-    jobId: string,
-    key: string,
-    mediaId: string
-  ): Promise<void> {
-    await this.dynamoDB
-      .put({
-        TableName: 'transcoding_jobs',
-        Item: {
-          jobId,
-          status: 'IN_PROGRESS',
-          videoKey: key,
-          mediaId: mediaId,
-          createdAt: new Date().toISOString(),
-        },
-      })
-      .promise();
-    this.logger.log(`Saved MediaConvert job ${jobId} in DynamoDB`);
+    media.transcodingProgress = 100;
+    media.playlistKey = output.playlistKey;
+    media.url = this.storage.getPublicUrl(output.playlistKey);
+    media.dashUrl = output.dashManifestKey
+      ? this.storage.getPublicUrl(output.dashManifestKey)
+      : null;
+    await this.captionsService.refreshPlaylist(media);
+    this.logger.log(`Video transcoded: ${media.url}`);
+    return true;
   }
 
   /**
-   * Checks the status of a MediaConvert job and updates the database.
+   * Applies the progress or outcome of a background transcoding job to its
+   * media. Updates for media that is no longer transcoding, e.g. a late event
+   * for a job that reconciliation already picked up, are ignored. An outcome
+   * that arrives while the media is still being processed, before it enters
+   * the transcoding state, is rejected so the job stays unreported and the
+   * event is redelivered or picked up by reconciliation.
    */
-  async checkJobStatus(jobId: string): Promise<void> {
-    try {
-      // Fetch job details from MediaConvert
-      const jobDetails = await this.mediaConvert
-        .getJob({ Id: jobId })
-        .promise();
-      if (!jobDetails.Job) {
-        this.logger.error(`MediaConvert job ${jobId} not found.`);
-        return;
-      }
-
-      const status = jobDetails.Job.Status;
-      this.logger.log(`MediaConvert job ${jobId} status: ${status}`);
-
-      // Retrieve the original video key from DynamoDB
-      const dynamoResult = await this.dynamoDB
-        .get({ TableName: 'transcoding_jobs', Key: { jobId } })
-        .promise();
-
-      const mediaId = dynamoResult.Item?.mediaId;
-      const videoKey = dynamoResult.Item?.videoKey;
-
-      if (!mediaId || !videoKey) {
-        this.logger.error(
-          `No mediaId or videoKey found in DynamoDB for job: ${jobId}`
-        );
-        return;
-      }
-
-      // ✅ If the job is complete, generate and update the media record with the final URL
-      if (status === 'COMPLETE') {
-        const outputUrl = this.extractOutputUrl(videoKey);
-
-        if (!outputUrl) {
-          this.logger.error(`No valid output URL found for job: ${jobId}`);
-          return;
-        }
-
-        // ✅ Update the media record in the database
-        await this.updateMediaRecord(mediaId, outputUrl);
-
-        const metadata = await this.mediaService.extractVideoMetadata(videoKey);
+  private async handleTranscodingUpdate(
+    update: TranscodingUpdate
+  ): Promise<void> {
+    const { mediaId } = update;
+
+    const media = await this.connection
+      .getRepository(Media)
+      .findOne({ where: { id: mediaId } });
+    if (
+      update.status !== 'progressing' &&
+      media?.status === MediaStatus.PROCESSING
+    ) {
+      throw new Error(
+        `Media ${mediaId} is not transcoding yet; the ${update.status} update will be retried`
+      );
+    }
+    if (media?.status !== MediaStatus.TRANSCODING) {
+      this.logger.warn(
+        `Ignoring ${update.status} transcoding update for media ${mediaId} (${
+          media?.status ?? 'not found'
+        })`
+      );
+      return;
+    }
 
-        await this.connection.transaction(async (manager: EntityManager) => {
-          const media = await manager.findOne(Media, {
-            where: { id: mediaId },
-          });
-          if (!media) {
-            this.logger.warn(
-              `Media not found for post-transcoding metadata: ${mediaId}`
-            );
-            return;
-          }
-          media.metadata = {
-            ...media.metadata,
-            ...metadata,
-          };
-          await manager.save(media);
-          this.logger.log(
-            `✅ Metadata updated for transcoded media: ${mediaId}`
-          );
-        });
-      }
+    if (update.status === 'progressing') {
+      await this.connection
+        .getRepository(Media)
+        .update(mediaId, { transcodingProgress: update.percentComplete });
+      this.logger.log(
+        `Transcoding progress for media ${mediaId}: ${update.percentComplete}%`
+      );
+      return;
+    }
 
-      // ✅ Update job status in DynamoDB
-      await this.dynamoDB
-        .update({
-          TableName: 'transcoding_jobs',
-          Key: { jobId },
-          UpdateExpression: 'SET #status = :status',
-          ExpressionAttributeNames: { '#status': 'status' },
-          ExpressionAttributeValues: { ':status': status },
-        })
-        .promise();
-    } catch (error) {
-      this.logger.error(
-        `Failed to fetch MediaConvert job status for: ${jobId}`,
-        undefined,
-        error as any
+    if (update.status === 'failed') {
+      // ❌ Record the failure on the media record
+      await this.mediaService.updateStatus(
+        mediaId,
+        MediaStatus.FAILED,
+        update.error
       );
+      return;
     }
+
+    // ✅ Update the media record with the final URLs. Metadata was recorded
+    // when the job was submitted.
+    await this.updateMediaRecord(mediaId, update);
+    await this.captionsService.refreshPlaylist({
+      ...media,
+      playlistKey: update.playlistKey,
+    });
+
+    await this.mediaService.updateStatus(mediaId, MediaStatus.READY);
   }
 
   /**
-   * Updates the media record in the database with the transcoded video URL.
+   * Updates the media record in the database with the transcoded video URLs.
    */
   private async updateMediaRecord(
     mediaId: string,
-    transcodedUrl: string
+    { playlistKey, dashManifestKey }: TranscodingOutput
   ): Promise<void> {
-    if (!transcodedUrl) {
-      this.logger.warn(`No valid transcoded URL found for key: ${mediaId}`);
-      return;
-    }
-
+    const transcodedUrl = this.storage.getPublicUrl(playlistKey);
     this.logger.log(
       `Updating media record with transcoded URL: ${transcodedUrl}`
     );
@@ -246,7 +207,15 @@ export class VideoTranscoder {
       const result = await manager
         .createQueryBuilder()
         .update(Media)
-        .set({ url: transcodedUrl, updatedAt: new Date() }) // ✅ Updates timestamp for consistency
+        .set({
+          url: transcodedUrl,
+          playlistKey,
+          dashUrl: dashManifestKey
+            ? this.storage.getPublicUrl(dashManifestKey)
+            : null,
+          transcodingProgress: 100,
+          updatedAt: new Date(), // ✅ Updates timestamp for consistency
+        })
         .where('id = :mediaId', { mediaId })
         .execute();
 
@@ -260,52 +229,34 @@ export class VideoTranscoder {
   }
 
   /**
-   * Deletes a failed job entry from DynamoDB.
+   * Applies a job state-change event pushed by the transcoding service.
    */
-  private async deleteFailedJob(jobId: string): Promise<void> {
-    try {
-      await this.dynamoDB
-        .delete({
-          TableName: 'transcoding_jobs',
-          Key: { jobId },
-        })
-        .promise();
-      this.logger.log(`Deleted failed job ${jobId} from DynamoDB`);
-    } catch (error) {
-      this.logger.error(
-        `Failed to delete failed job ${jobId} from DynamoDB`,
-        undefined,
-        error as any
+  async handleTranscodingEvent(event: unknown): Promise<void> {
+    if (!this.transcoder.handleJobEvent) {
+      this.logger.warn(
+        'Ignoring transcoding event: the transcoding driver does not push events'
       );
+      return;
     }
-  }
 
-  /**
-   * Extracts the master .m3u8 file URL from MediaConvert job details.
-   */
-  private extractOutputUrl(videoKey: string): string {
-    const cleanKey = this.extractFileName(videoKey);
-    return `https://${this.cloudFrontDomain}/videos/transcoded/${cleanKey}.m3u8`;
+    await this.transcoder.handleJobEvent(event, update =>
+      this.handleTranscodingUpdate(update)
+    );
   }
 
   /**
-   * Polls for completed MediaConvert jobs every 2 minutes.
+   * Picks up background transcoding jobs that have finished. Completion is
+   * normally pushed as events; this catches any that were missed.
    */
   async pollTranscodingJobs(): Promise<void> {
-    this.logger.log('Polling for completed MediaConvert jobs...');
-    try {
-      const jobs = await this.dynamoDB
-        .scan({
-          TableName: 'transcoding_jobs',
-          FilterExpression: '#status = :status',
-          ExpressionAttributeNames: { '#status': 'status' },
-          ExpressionAttributeValues: { ':status': 'IN_PROGRESS' },
-        })
-        .promise();
+    if (!this.transcoder.pollJobs) {
+      return;
+    }
 
-      for (const job of jobs.Items || []) {
-        await this.checkJobStatus(job.jobId);
-      }
+    try {
+      await this.transcoder.pollJobs(update =>
+        this.handleTranscodingUpdate(update)
+      );
     } catch (error) {
       this.logger.error(
         'Failed to poll transcoding jobs',
@@ -315,15 +266,17 @@ export class VideoTranscoder {
     }
   }
 
-  @Cron('*/2 * * * *') // Runs every 2 minutes
+  @Cron('*/15 * * * *') // Reconciles every 15 minutes
   async handleJobPolling() {
     await this.pollTranscodingJobs();
   }
 
   /**
-   * Extracts the filename (without extension) from an S3 key.
+   * Extracts the filename (without extension) from a storage key.
    */
   private extractFileName(key: string): string {
-    return key.replace(`${this.inputPrefix}/`, '').replace(/\.[^/.]+$/, '');
+    return toPublicKey(key)
+      .replace(`${this.inputPrefix}/`, '')
+      .replace(/\.[^/.]+$/, '');
   }
 }
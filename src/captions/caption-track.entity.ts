@@ -0,0 +1,79 @@
+// src/captions/caption-track.entity.ts
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  Unique,
+} from 'typeorm';
+import {
+  IsBoolean,
+  IsNumber,
+  IsString,
+  IsUrl,
+  IsUUID,
+  Length,
+} from 'class-validator';
+import { Media } from '../media/media.entity';
+
+/**
+ * A subtitle track of a video, one per language. The track is stored as
+ * WebVTT next to an HLS subtitle playlist, which the video's master playlist
+ * lists in its subtitle group.
+ */
+@Entity('caption_track')
+@Unique(['mediaId', 'language'])
+export class CaptionTrack {
+  @PrimaryGeneratedColumn('uuid')
+  @IsUUID()
+  id!: string;
+
+  @Column('uuid')
+  @Index()
+  @IsUUID()
+  mediaId!: string;
+
+  @ManyToOne(() => Media, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'mediaId' })
+  media?: Media;
+
+  @Column({ type: 'varchar', length: 35 })
+  @IsString()
+  language!: string; // BCP 47 tag, e.g. en or pt-BR
+
+  @Column({ type: 'varchar', length: 255 })
+  @IsString()
+  @Length(1, 255)
+  label!: string; // Name shown in the player's subtitle menu
+
+  @Column({ default: false })
+  @IsBoolean()
+  isDefault!: boolean; // Shown without the viewer selecting it; at most one per video
+
+  @Column()
+  @IsString()
+  key!: string; // WebVTT object key
+
+  @Column()
+  @IsUrl()
+  url!: string;
+
+  @Column()
+  @IsString()
+  playlistKey!: string; // HLS subtitle playlist wrapping the WebVTT file
+
+  @Column({ type: 'float' })
+  @IsNumber()
+  duration!: number; // End of the last cue, in seconds
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -0,0 +1,142 @@
+// src/captions/captions.controller.ts
+
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
+  Req,
+  Get,
+  Param,
+  Patch,
+  Delete,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { CaptionsService } from './captions.service';
+import { CreateCaptionTrackDto } from './dto/create-caption-track.dto';
+import { UpdateCaptionTrackDto } from './dto/update-caption-track.dto';
+import { JwtAuthGuard } from 'src/auth/jwt-auth.guard';
+
+/**
+ * Subtitle tracks of the user's videos. Tracks are listed in the video's
+ * HLS master playlist, so players offer them without further setup.
+ */
+@ApiBearerAuth()
+@ApiTags('captions')
+@Controller('media/:id/captions')
+@UseGuards(JwtAuthGuard)
+export class CaptionsController {
+  constructor(private readonly captionsService: CaptionsService) {}
+
+  /**
+   * Uploads a subtitle track for a video, replacing any track in the same
+   * language. WebVTT and SRT are accepted; SRT is converted to WebVTT.
+   *
+   * **Endpoint**: POST /media/:id/captions
+   *
+   * **Request Body**:
+   * ```json
+   * {
+   *   "language": "en-GB",
+   *   "label": "English",
+   *   "content": "1\n00:00:01,000 --> 00:00:04,000\nHello there\n",
+   *   "isDefault": true
+   * }
+   * ```
+   *
+   * **Response**:
+   * ```json
+   * {
+   *   "id": "track-uuid",
+   *   "mediaId": "media-uuid",
+   *   "language": "en-GB",
+   *   "label": "English",
+   *   "isDefault": true,
+   *   "key": "captions/media-uuid/en-GB-version-uuid.vtt",
+   *   "url": "https://cdn.example.com/captions/media-uuid/en-GB-version-uuid.vtt",
+   *   "playlistKey": "captions/media-uuid/en-GB-version-uuid.m3u8",
+   *   "duration": 4,
+   *   "createdAt": "2023-10-01T12:00:00Z",
+   *   "updatedAt": "2023-10-01T12:00:00Z"
+   * }
+   * ```
+   */
+  @Post()
+  @ApiOperation({ summary: 'Upload a subtitle track for a video' })
+  @ApiResponse({ status: 201, description: 'Track stored and published.' })
+  @ApiResponse({ status: 400, description: 'Invalid subtitle file.' })
+  async addTrack(
+    @Param('id') id: string,
+    @Body() body: CreateCaptionTrackDto,
+    @Req() req
+  ) {
+    const userId = req.user.sub;
+    return this.captionsService.addTrack(
+      id,
+      userId,
+      body,
+      req.user['custom:plan']
+    );
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List the subtitle tracks of a video' })
+  @ApiResponse({ status: 200, description: 'Tracks retrieved successfully.' })
+  async getTracks(@Param('id') id: string, @Req() req) {
+    const userId = req.user.sub;
+    return this.captionsService.getTracks(id, userId);
+  }
+
+  /**
+   * Updates a subtitle track's label or default flag, or replaces its
+   * contents.
+   *
+   * **Endpoint**: PATCH /media/:id/captions/:trackId
+   *
+   * **Request Body**:
+   * ```json
+   * {
+   *   "label": "English (UK)",
+   *   "isDefault": false
+   * }
+   * ```
+   */
+  @Patch(':trackId')
+  @ApiOperation({ summary: 'Update a subtitle track' })
+  @ApiResponse({ status: 200, description: 'Track updated successfully.' })
+  @ApiResponse({ status: 404, description: 'Track not found.' })
+  async updateTrack(
+    @Param('id') id: string,
+    @Param('trackId') trackId: string,
+    @Body() body: UpdateCaptionTrackDto,
+    @Req() req
+  ) {
+    const userId = req.user.sub;
+    return this.captionsService.updateTrack(
+      id,
+      trackId,
+      userId,
+      body,
+      req.user['custom:plan']
+    );
+  }
+
+  @Delete(':trackId')
+  @ApiOperation({ summary: 'Delete a subtitle track' })
+  @ApiResponse({ status: 200, description: 'Track deleted successfully.' })
+  @ApiResponse({ status: 404, description: 'Track not found.' })
+  async deleteTrack(
+    @Param('id') id: string,
+    @Param('trackId') trackId: string,
+    @Req() req
+  ) {
+    const userId = req.user.sub;
+    await this.captionsService.deleteTrack(id, trackId, userId);
+    return { message: 'Caption track deleted' };
+  }
+}
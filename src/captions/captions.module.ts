@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CaptionsService } from './captions.service';
+import { CaptionsController } from './captions.controller';
+import { CaptionTrack } from './caption-track.entity';
+import { Media } from 'src/media/media.entity';
+import { AwsModule } from 'src/aws/aws.module';
+import { UsageModule } from 'src/usage/usage.module';
+import { LoggerService } from 'src/logger/logger.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([CaptionTrack, Media]),
+    AwsModule,
+    UsageModule,
+  ],
+  providers: [CaptionsService, LoggerService],
+  controllers: [CaptionsController],
+  exports: [CaptionsService],
+})
+export class CaptionsModule {}
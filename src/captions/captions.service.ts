@@ -0,0 +1,323 @@
+// src/captions/captions.service.ts
+
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+import { CaptionTrack } from './caption-track.entity';
+import { CreateCaptionTrackDto } from './dto/create-caption-track.dto';
+import { UpdateCaptionTrackDto } from './dto/update-caption-track.dto';
+import {
+  buildSubtitlePlaylist,
+  SubtitleFormatError,
+  toWebVtt,
+  WebVttTrack,
+  withSubtitleGroup,
+} from './subtitles';
+import { Media } from 'src/media/media.entity';
+import { StorageProvider } from 'src/aws/storage/storage.provider';
+import { UsageService } from 'src/usage/usage.service';
+import { LoggerService } from 'src/logger/logger.service';
+import { MediaType } from '../common/enums/media-type.enum';
+import { MediaStatus } from '../common/enums/media-status.enum';
+import { UsageKind } from '../common/enums/usage-kind.enum';
+
+const PLAYLIST_CONTENT_TYPE = 'application/vnd.apple.mpegurl';
+
+@Injectable()
+export class CaptionsService {
+  private readonly prefix = 'captions';
+
+  constructor(
+    @InjectRepository(CaptionTrack)
+    private trackRepository: Repository<CaptionTrack>,
+    @InjectRepository(Media)
+    private mediaRepository: Repository<Media>,
+    @Inject('STORAGE') private readonly storage: StorageProvider,
+    private readonly usageService: UsageService,
+    private readonly logger: LoggerService
+  ) {}
+
+  /**
+   * Lists the caption tracks of one of the user's videos.
+   */
+  async getTracks(mediaId: string, userId: string): Promise<CaptionTrack[]> {
+    await this.getVideo(mediaId, userId);
+    return this.trackRepository.find({
+      where: { mediaId },
+      order: { language: 'ASC' },
+    });
+  }
+
+  /**
+   * Adds a caption track to a video, replacing any track in the same
+   * language. SRT files are converted to WebVTT.
+   */
+  async addTrack(
+    mediaId: string,
+    userId: string,
+    dto: CreateCaptionTrackDto,
+    plan?: string
+  ): Promise<CaptionTrack> {
+    const media = await this.getVideo(mediaId, userId);
+    const vtt = this.convert(dto.content);
+    await this.usageService.assertWithinQuota(userId, plan);
+
+    const existing = await this.trackRepository.findOne({
+      where: { mediaId, language: dto.language },
+    });
+    const track =
+      existing ??
+      this.trackRepository.create({ mediaId, language: dto.language });
+    track.label = dto.label ?? existing?.label ?? dto.language;
+    track.isDefault = dto.isDefault ?? existing?.isDefault ?? false;
+
+    const saved = await this.saveTrack(media, track, vtt);
+    this.logger.log(
+      `Caption track ${saved.language} ${
+        existing ? 'replaced' : 'added'
+      } for media: ${mediaId}`
+    );
+    return saved;
+  }
+
+  /**
+   * Updates the label, default flag or contents of a caption track.
+   */
+  async updateTrack(
+    mediaId: string,
+    trackId: string,
+    userId: string,
+    dto: UpdateCaptionTrackDto,
+    plan?: string
+  ): Promise<CaptionTrack> {
+    const media = await this.getVideo(mediaId, userId);
+    const track = await this.getTrack(mediaId, trackId);
+    const vtt = dto.content !== undefined ? this.convert(dto.content) : null;
+    if (vtt) {
+      await this.usageService.assertWithinQuota(userId, plan);
+    }
+
+    track.label = dto.label ?? track.label;
+    track.isDefault = dto.isDefault ?? track.isDefault;
+
+    const saved = await this.saveTrack(media, track, vtt);
+    this.logger.log(`Caption track ${trackId} updated for media: ${mediaId}`);
+    return saved;
+  }
+
+  /**
+   * Deletes a caption track and removes it from the video's playlist.
+   */
+  async deleteTrack(
+    mediaId: string,
+    trackId: string,
+    userId: string
+  ): Promise<void> {
+    const media = await this.getVideo(mediaId, userId);
+    const track = await this.getTrack(mediaId, trackId);
+
+    await this.trackRepository.remove(track);
+    await this.publish(media);
+    await this.deleteObjects([track.key, track.playlistKey]);
+    this.logger.log(`Caption track ${trackId} deleted for media: ${mediaId}`);
+  }
+
+  /**
+   * Lists a video's caption tracks in its master playlist once transcoding
+   * has written a new one. Videos without tracks are left untouched.
+   */
+  async refreshPlaylist(media: Media): Promise<void> {
+    if (await this.trackRepository.exist({ where: { mediaId: media.id } })) {
+      // The video itself is fine without captions; the failure is logged
+      await this.publish(media).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Stores the track's WebVTT file and subtitle playlist if given, saves the
+   * track and rewrites the master playlist. Objects of a replaced version
+   * are deleted afterwards; new versions get new keys so caches never serve
+   * stale captions.
+   */
+  private async saveTrack(
+    media: Media,
+    track: CaptionTrack,
+    vtt: WebVttTrack | null
+  ): Promise<CaptionTrack> {
+    const replaced = vtt && track.key ? [track.key, track.playlistKey] : [];
+
+    if (vtt) {
+      const basePath = `${this.prefix}/${media.id}/${
+        track.language
+      }-${uuidv4()}`;
+      const vttBody = Buffer.from(vtt.content, 'utf8');
+      track.key = `${basePath}.vtt`;
+      track.url = this.storage.getPublicUrl(track.key);
+      track.playlistKey = `${basePath}.m3u8`;
+      track.duration = vtt.duration;
+      const playlistBody = Buffer.from(
+        buildSubtitlePlaylist(track.url, vtt.duration),
+        'utf8'
+      );
+
+      await this.storage.putObject(track.key, vttBody, {
+        contentType: 'text/vtt',
+      });
+      await this.storage.putObject(track.playlistKey, playlistBody, {
+        contentType: PLAYLIST_CONTENT_TYPE,
+      });
+      for (const [key, body] of [
+        [track.key, vttBody],
+        [track.playlistKey, playlistBody],
+      ] as const) {
+        await this.usageService.recordObject({
+          userId: media.uploadedBy,
+          mediaId: media.id,
+          mediaType: media.type,
+          kind: UsageKind.DERIVATIVE,
+          key,
+          bytes: body.length,
+        });
+      }
+    }
+
+    if (track.isDefault) {
+      // Players show the default track unprompted, so only one may be set
+      await this.trackRepository.update(
+        { mediaId: media.id, isDefault: true },
+        { isDefault: false }
+      );
+    }
+    const saved = await this.trackRepository.save(track);
+
+    await this.publish(media);
+    await this.deleteObjects(replaced);
+    return saved;
+  }
+
+  /**
+   * Rewrites the subtitle group of the video's HLS master playlist to list
+   * its current tracks. Videos still transcoding have no playlist yet; their
+   * tracks are listed once transcoding completes.
+   */
+  private async publish(media: Media): Promise<void> {
+    if (!media.playlistKey) {
+      this.logger.log(
+        `Media ${media.id} has no playlist yet; captions will be listed after transcoding`
+      );
+      return;
+    }
+
+    const tracks = await this.trackRepository.find({
+      where: { mediaId: media.id },
+      order: { language: 'ASC' },
+    });
+    try {
+      const master = await this.storage.getObject(media.playlistKey);
+      const updated = withSubtitleGroup(
+        master.toString('utf8'),
+        tracks.map(track => ({
+          name: track.label,
+          language: track.language,
+          isDefault: track.isDefault,
+          uri: this.storage.getPublicUrl(track.playlistKey),
+        }))
+      );
+      await this.storage.putObject(
+        media.playlistKey,
+        Buffer.from(updated, 'utf8'),
+        { contentType: PLAYLIST_CONTENT_TYPE, cacheControl: 'no-cache' }
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to update playlist of media ${media.id} with captions`,
+        (error as any).stack
+      );
+      throw new BadRequestException('Failed to update the video playlist');
+    }
+    this.logger.log(
+      `Listed ${tracks.length} caption tracks in playlist of media: ${media.id}`
+    );
+  }
+
+  private async deleteObjects(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      await this.storage.deleteObject(key);
+      await this.usageService.removeKey(key);
+    }
+  }
+
+  private convert(content: string): WebVttTrack {
+    try {
+      return toWebVtt(content);
+    } catch (error) {
+      if (error instanceof SubtitleFormatError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Loads one of the user's videos that captions can be added to: one being
+   * transcoded, or a ready video with its own HLS playlist. Duplicates are
+   * refused as their playlist belongs to the original.
+   */
+  private async getVideo(mediaId: string, userId: string): Promise<Media> {
+    const media = await this.mediaRepository.findOne({
+      where: { id: mediaId },
+    });
+    if (!media) {
+      this.logger.warn(`Media not found: ${mediaId}`);
+      throw new BadRequestException('Media not found');
+    }
+
+    if (media.uploadedBy !== userId) {
+      this.logger.warn(
+        `User ${userId} unauthorized to manage captions of media: ${mediaId}`
+      );
+      throw new BadRequestException('Unauthorized');
+    }
+
+    if (media.type !== MediaType.VIDEO) {
+      throw new BadRequestException('Only videos can have captions');
+    }
+
+    // A duplicate plays from its original's playlist, so publishing its
+    // tracks would replace the original owner's subtitles
+    if (media.duplicateOfId) {
+      throw new BadRequestException(
+        'Captions cannot be added to a duplicate of another upload'
+      );
+    }
+
+    if (
+      media.status !== MediaStatus.TRANSCODING &&
+      !(media.status === MediaStatus.READY && media.playlistKey)
+    ) {
+      throw new BadRequestException(
+        'Captions can only be added to transcoded videos'
+      );
+    }
+    return media;
+  }
+
+  private async getTrack(
+    mediaId: string,
+    trackId: string
+  ): Promise<CaptionTrack> {
+    const track = await this.trackRepository.findOne({
+      where: { id: trackId, mediaId },
+    });
+    if (!track) {
+      throw new NotFoundException('Caption track not found');
+    }
+    return track;
+  }
+}
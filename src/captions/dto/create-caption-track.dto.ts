@@ -0,0 +1,52 @@
+// src/captions/dto/create-caption-track.dto.ts
+
+import {
+  IsBoolean,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateCaptionTrackDto {
+  @ApiProperty({
+    description: 'Language of the track, as a BCP 47 tag',
+    example: 'en-GB',
+  })
+  @IsString()
+  @Matches(/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/, {
+    message: 'language must be a BCP 47 language tag, e.g. en or pt-BR',
+  })
+  @MaxLength(35)
+  language!: string;
+
+  @ApiPropertyOptional({
+    description: 'Name shown in the player, defaults to the language tag',
+    example: 'English',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 255)
+  @Matches(/^[^\x00-\x1f\x7f]*$/, {
+    message: 'label must not contain control characters',
+  })
+  label?: string;
+
+  @ApiProperty({
+    description: 'Contents of a WebVTT or SRT subtitle file',
+    example: 'WEBVTT\n\n00:00:01.000 --> 00:00:04.000\nHello there',
+  })
+  @IsString()
+  @MaxLength(512 * 1024)
+  content!: string;
+
+  @ApiPropertyOptional({
+    description: 'Show the track without the viewer selecting it',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+}
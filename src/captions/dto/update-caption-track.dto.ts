@@ -0,0 +1,8 @@
+// src/captions/dto/update-caption-track.dto.ts
+
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateCaptionTrackDto } from './create-caption-track.dto';
+
+export class UpdateCaptionTrackDto extends PartialType(
+  OmitType(CreateCaptionTrackDto, ['language'] as const)
+) {}
@@ -0,0 +1,168 @@
+// src/captions/subtitles.spec.ts
+
+import {
+  buildSubtitlePlaylist,
+  SubtitleFormatError,
+  toWebVtt,
+  withSubtitleGroup,
+} from './subtitles';
+
+describe('toWebVtt', () => {
+  it('converts SRT cues to WebVTT', () => {
+    const srt = [
+      '1',
+      '00:00:01,000 --> 00:00:02,500',
+      'Hello',
+      '',
+      '2',
+      '0:01:02,250 --> 0:01:04,000',
+      'Second line',
+      'wraps here',
+    ].join('\r\n');
+
+    expect(toWebVtt(srt)).toEqual({
+      content: [
+        'WEBVTT',
+        '',
+        '00:00:01.000 --> 00:00:02.500',
+        'Hello',
+        '',
+        '00:01:02.250 --> 00:01:04.000',
+        'Second line',
+        'wraps here',
+        '',
+      ].join('\n'),
+      duration: 64,
+    });
+  });
+
+  it('accepts SRT cues without sequence numbers and with a byte order mark', () => {
+    const { content, duration } = toWebVtt(
+      '﻿00:00:00,500 --> 00:00:03,000\nHi'
+    );
+
+    expect(content).toBe('WEBVTT\n\n00:00:00.500 --> 00:00:03.000\nHi\n');
+    expect(duration).toBe(3);
+  });
+
+  it('keeps WebVTT files as they are', () => {
+    const vtt = [
+      'WEBVTT - Episode 1',
+      '',
+      'NOTE Translated by hand',
+      '',
+      'STYLE',
+      '::cue { color: yellow }',
+      '',
+      'intro',
+      '00:01.000 --> 00:04.000 align:start',
+      'Hello',
+      '',
+      '01:00:00.000 --> 01:00:02.000',
+      'Goodbye',
+    ].join('\n');
+
+    expect(toWebVtt(vtt)).toEqual({ content: `${vtt}\n`, duration: 3602 });
+  });
+
+  it.each([
+    ['an empty file', ''],
+    ['a WebVTT file with no cues', 'WEBVTT\n\nNOTE nothing here'],
+    ['a WebVTT cue without timing', 'WEBVTT\n\nintro\nHello'],
+    ['a file that is neither format', 'Just some text'],
+    ['an SRT cue with a bad timestamp', '1\n00:00:01 --> 00:00:02\nHello'],
+    ['a cue that ends before it starts', '00:00:05,000 --> 00:00:01,000\nHi'],
+  ])('rejects %s', (_case, input) => {
+    expect(() => toWebVtt(input)).toThrow(SubtitleFormatError);
+  });
+});
+
+describe('buildSubtitlePlaylist', () => {
+  it('lists the WebVTT file as a single segment', () => {
+    expect(buildSubtitlePlaylist('en.vtt', 64.25).split('\n')).toEqual([
+      '#EXTM3U',
+      '#EXT-X-VERSION:3',
+      '#EXT-X-TARGETDURATION:65',
+      '#EXT-X-MEDIA-SEQUENCE:0',
+      '#EXT-X-PLAYLIST-TYPE:VOD',
+      '#EXTINF:64.250,',
+      'en.vtt',
+      '#EXT-X-ENDLIST',
+      '',
+    ]);
+  });
+
+  it('keeps the target duration at one second or more', () => {
+    expect(buildSubtitlePlaylist('en.vtt', 0)).toContain(
+      '#EXT-X-TARGETDURATION:1\n'
+    );
+  });
+});
+
+describe('withSubtitleGroup', () => {
+  const master = [
+    '#EXTM3U',
+    '#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360',
+    '360p.m3u8',
+    '#EXT-X-STREAM-INF:BANDWIDTH=2800000,RESOLUTION=1280x720',
+    '720p.m3u8',
+  ].join('\n');
+
+  const english = {
+    name: 'English',
+    language: 'en',
+    isDefault: true,
+    uri: 'subtitles/en.m3u8',
+  };
+
+  it('adds the tracks before the first stream and references them from every stream', () => {
+    const lines = withSubtitleGroup(master, [
+      english,
+      {
+        name: 'Français "QC"',
+        language: 'fr-CA',
+        isDefault: false,
+        uri: 'subtitles/fr-CA.m3u8',
+      },
+    ]).split('\n');
+
+    expect(lines).toEqual([
+      '#EXTM3U',
+      '#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="English",LANGUAGE="en",DEFAULT=YES,AUTOSELECT=YES,FORCED=NO,URI="subtitles/en.m3u8"',
+      `#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="Français 'QC'",LANGUAGE="fr-CA",DEFAULT=NO,AUTOSELECT=YES,FORCED=NO,URI="subtitles/fr-CA.m3u8"`,
+      '#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360,SUBTITLES="subs"',
+      '360p.m3u8',
+      '#EXT-X-STREAM-INF:BANDWIDTH=2800000,RESOLUTION=1280x720,SUBTITLES="subs"',
+      '720p.m3u8',
+    ]);
+  });
+
+  it('keeps a track name with line breaks on its own line', () => {
+    const lines = withSubtitleGroup(master, [
+      {
+        ...english,
+        name: 'English\r\n#EXT-X-STREAM-INF:BANDWIDTH=1\nhttps://evil.example.com/x.m3u8',
+      },
+    ]).split('\n');
+
+    expect(lines).toHaveLength(6);
+    expect(lines[1]).toContain(
+      'NAME="English #EXT-X-STREAM-INF:BANDWIDTH=1 https://evil.example.com/x.m3u8"'
+    );
+    expect(
+      lines.filter(line => line.startsWith('#EXT-X-STREAM-INF:'))
+    ).toHaveLength(2);
+  });
+
+  it('replaces an existing group instead of adding to it', () => {
+    const once = withSubtitleGroup(master, [english]);
+
+    expect(withSubtitleGroup(once, [english])).toBe(once);
+  });
+
+  it('removes the group when no tracks are left', () => {
+    const withTracks = withSubtitleGroup(master, [english]);
+
+    expect(withSubtitleGroup(withTracks, [])).toBe(master);
+  });
+});
@@ -0,0 +1,198 @@
+// src/captions/subtitles.ts
+
+/**
+ * Raised when an uploaded subtitle file is neither valid WebVTT nor SRT.
+ */
+export class SubtitleFormatError extends Error {}
+
+/**
+ * A subtitle track converted to WebVTT.
+ */
+export interface WebVttTrack {
+  content: string;
+  duration: number; // End of the last cue, in seconds
+}
+
+/**
+ * A subtitle track as listed in an HLS master playlist.
+ */
+export interface SubtitleRendition {
+  name: string;
+  language: string;
+  isDefault: boolean;
+  uri: string; // Subtitle media playlist
+}
+
+const SUBTITLE_GROUP = 'subs';
+
+const VTT_TIMING =
+  /^((?:\d{2,}:)?\d{2}:\d{2}\.\d{3})[ \t]+-->[ \t]+((?:\d{2,}:)?\d{2}:\d{2}\.\d{3})(?:[ \t].*)?$/;
+const SRT_TIMING =
+  /^(\d{1,}:\d{2}:\d{2}[,.]\d{3})[ \t]*-->[ \t]*(\d{1,}:\d{2}:\d{2}[,.]\d{3})(?:[ \t].*)?$/;
+
+/**
+ * Validates a WebVTT file, or converts an SRT file to WebVTT.
+ */
+export function toWebVtt(input: string): WebVttTrack {
+  const text = input.replace(/^﻿/, '').replace(/\r\n?/g, '\n').trim();
+  return /^WEBVTT(?:[ \t].*)?(?:\n|$)/.test(text)
+    ? parseWebVtt(text)
+    : convertSrt(text);
+}
+
+/**
+ * Checks the cues of a WebVTT file. Comment, style and region blocks are
+ * kept as they are.
+ */
+function parseWebVtt(text: string): WebVttTrack {
+  const [, ...blocks] = text.split(/\n{2,}/);
+  let duration = 0;
+  let cues = 0;
+
+  for (const block of blocks) {
+    if (/^(NOTE|STYLE|REGION)(?:\s|$)/.test(block)) {
+      continue;
+    }
+    const lines = block.split('\n');
+    // The timing line may follow an optional cue identifier
+    const timing = VTT_TIMING.exec(lines[0]) ?? VTT_TIMING.exec(lines[1] ?? '');
+    if (!timing) {
+      throw new SubtitleFormatError(
+        `Invalid WebVTT cue: ${lines[0].slice(0, 80)}`
+      );
+    }
+    duration = Math.max(duration, checkCue(timing[1], timing[2]));
+    cues++;
+  }
+
+  if (!cues) {
+    throw new SubtitleFormatError('The WebVTT file has no cues');
+  }
+  return { content: `${text}\n`, duration };
+}
+
+/**
+ * Converts SRT cues to WebVTT: sequence numbers are dropped and the comma
+ * before milliseconds becomes a dot.
+ */
+function convertSrt(text: string): WebVttTrack {
+  const cues: string[] = [];
+  let duration = 0;
+
+  for (const block of text ? text.split(/\n{2,}/) : []) {
+    const lines = block.split('\n');
+    if (/^\d+$/.test(lines[0].trim())) {
+      lines.shift();
+    }
+    const timing = SRT_TIMING.exec(lines[0]?.trim() ?? '');
+    if (!timing) {
+      throw new SubtitleFormatError(
+        `File is neither WebVTT nor SRT; invalid cue: ${block
+          .split('\n')[0]
+          .slice(0, 80)}`
+      );
+    }
+
+    const [start, end] = [timing[1], timing[2]].map(timestamp =>
+      timestamp.replace(',', '.').padStart(12, '0')
+    );
+    duration = Math.max(duration, checkCue(start, end));
+    cues.push([`${start} --> ${end}`, ...lines.slice(1)].join('\n'));
+  }
+
+  if (!cues.length) {
+    throw new SubtitleFormatError('The subtitle file has no cues');
+  }
+  return { content: ['WEBVTT', ...cues].join('\n\n') + '\n', duration };
+}
+
+/**
+ * Returns the end of a cue in seconds, rejecting cues that end before they
+ * start.
+ */
+function checkCue(start: string, end: string): number {
+  const [from, to] = [start, end].map(timestamp =>
+    timestamp
+      .split(':')
+      .reduce((seconds, part) => seconds * 60 + parseFloat(part), 0)
+  );
+  if (to < from) {
+    throw new SubtitleFormatError(`Cue ends before it starts: ${start}`);
+  }
+  return to;
+}
+
+/**
+ * Builds the HLS media playlist for a subtitle track, which carries the
+ * whole WebVTT file as a single segment.
+ */
+export function buildSubtitlePlaylist(
+  vttUri: string,
+  duration: number
+): string {
+  return [
+    '#EXTM3U',
+    '#EXT-X-VERSION:3',
+    `#EXT-X-TARGETDURATION:${Math.max(1, Math.ceil(duration))}`,
+    '#EXT-X-MEDIA-SEQUENCE:0',
+    '#EXT-X-PLAYLIST-TYPE:VOD',
+    `#EXTINF:${duration.toFixed(3)},`,
+    vttUri,
+    '#EXT-X-ENDLIST',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Replaces the subtitle group of an HLS master playlist: one `EXT-X-MEDIA`
+ * entry per track, referenced from every variant stream. With no tracks, the
+ * group is removed.
+ */
+export function withSubtitleGroup(
+  master: string,
+  renditions: SubtitleRendition[]
+): string {
+  const lines = master
+    .split('\n')
+    .filter(line => !line.startsWith('#EXT-X-MEDIA:TYPE=SUBTITLES'))
+    .map(line =>
+      line.startsWith('#EXT-X-STREAM-INF:')
+        ? line.replace(/,SUBTITLES="[^"]*"/, '')
+        : line
+    );
+  if (!renditions.length) {
+    return lines.join('\n');
+  }
+
+  const media = renditions.map(
+    ({ name, language, isDefault, uri }) =>
+      `#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="${SUBTITLE_GROUP}",NAME="${playlistName(
+        name
+      )}",LANGUAGE="${language}",DEFAULT=${
+        isDefault ? 'YES' : 'NO'
+      },AUTOSELECT=YES,FORCED=NO,URI="${uri}"`
+  );
+  const firstStream = lines.findIndex(line =>
+    line.startsWith('#EXT-X-STREAM-INF:')
+  );
+  const withStreams = lines.map(line =>
+    line.startsWith('#EXT-X-STREAM-INF:')
+      ? `${line},SUBTITLES="${SUBTITLE_GROUP}"`
+      : line
+  );
+  withStreams.splice(
+    firstStream === -1 ? withStreams.length : firstStream,
+    0,
+    ...media
+  );
+  return withStreams.join('\n');
+}
+
+/**
+ * Makes a track name safe to quote in a playlist attribute: control
+ * characters would start new playlist lines and double quotes would end the
+ * value.
+ */
+function playlistName(name: string): string {
+  return name.replace(/[\x00-\x1f\x7f]+/g, ' ').replace(/"/g, "'");
+}
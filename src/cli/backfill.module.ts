@@ -0,0 +1,27 @@
+// src/cli/backfill.module.ts
+
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import configuration from '../config/configuration';
+import { AppDataSource } from '../data-source';
+import { LoggerModule } from '../logger/logger.module';
+import { MediaModule } from '../media/media.module';
+
+/**
+ * Minimal application for the backfill command: no HTTP server, queue
+ * polling or scheduled jobs.
+ */
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      load: [configuration],
+      isGlobal: true,
+      envFilePath: '.env',
+    }),
+    LoggerModule,
+    TypeOrmModule.forRoot(AppDataSource.options),
+    MediaModule,
+  ],
+})
+export class BackfillModule {}
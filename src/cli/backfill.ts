@@ -0,0 +1,115 @@
+// src/cli/backfill.ts
+//
+// Re-queues processing for existing media, e.g. after derivative sizes change
+// or a processing bug is fixed:
+//
+//   npm run backfill -- --type image --missing responsive --steps responsive-images --dry-run
+//
+// Options:
+//   --type <type>        Only media of this type (profile_picture, album_cover_image, image, video)
+//   --from <date>        Only media created on or after this date (ISO 8601)
+//   --to <date>          Only media created before this date (ISO 8601)
+//   --missing <kind>     Only media without a derivative of this kind (e.g. responsive)
+//   --steps <a,b>        Steps to re-run; defaults to each media type's whole pipeline
+//   --limit <n>          Stop after this many media items
+//   --rate <n>           Events published per second (default 10)
+//   --dry-run            List the matching media without publishing anything
+
+import { parseArgs } from 'util';
+import { NestFactory } from '@nestjs/core';
+import { BackfillModule } from './backfill.module';
+import { MediaBackfill } from '../media/media-backfill.service';
+import { MediaType } from '../common/enums/media-type.enum';
+import { DerivativeKind } from '../common/enums/derivative-kind.enum';
+
+function parseEnum<T extends string>(
+  name: string,
+  value: string | undefined,
+  values: T[]
+): T | undefined {
+  if (value !== undefined && !values.includes(value as T)) {
+    throw new Error(`--${name} must be one of: ${values.join(', ')}`);
+  }
+  return value as T | undefined;
+}
+
+function parseDate(name: string, value: string | undefined): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`--${name} must be an ISO 8601 date`);
+  }
+  return date;
+}
+
+function parsePositive(
+  name: string,
+  value: string | undefined
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!(number > 0)) {
+    throw new Error(`--${name} must be a positive number`);
+  }
+  return number;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      type: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      missing: { type: 'string' },
+      steps: { type: 'string' },
+      limit: { type: 'string' },
+      rate: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+  const options = {
+    type: parseEnum('type', values.type, Object.values(MediaType)),
+    createdFrom: parseDate('from', values.from),
+    createdTo: parseDate('to', values.to),
+    missing: parseEnum(
+      'missing',
+      values.missing,
+      Object.values(DerivativeKind)
+    ),
+    steps: values.steps?.split(',').map(step => step.trim()),
+    limit: parsePositive('limit', values.limit),
+    ratePerSecond: parsePositive('rate', values.rate) ?? 10,
+    dryRun: values['dry-run'] ?? false,
+  };
+
+  const app = await NestFactory.createApplicationContext(BackfillModule, {
+    logger: ['error', 'warn'],
+  });
+  try {
+    const result = await app
+      .get(MediaBackfill)
+      .run(options, ({ matched, processed, published, failed }) =>
+        console.log(
+          `${processed}/${matched} processed, ${published} published, ${failed} failed`
+        )
+      );
+
+    console.log(
+      options.dryRun
+        ? `Dry run: ${result.matched} media would be reprocessed`
+        : `Done: ${result.published} reprocess events published, ${result.failed} failed`
+    );
+    process.exitCode = result.failed ? 1 : 0;
+  } finally {
+    await app.close();
+  }
+}
+
+main().catch(error => {
+  console.error((error as Error).message);
+  process.exit(1);
+});
@@ -0,0 +1,11 @@
+export enum DerivativeKind {
+  MASTER = 'master',
+  THUMBNAIL = 'thumbnail',
+  OPTIMIZED = 'optimized',
+  RESPONSIVE = 'responsive',
+  RENDITION = 'rendition', // Rendered on demand by the render endpoint
+  WATERMARKED = 'watermarked', // Master with the applicable watermark applied
+  POSTER = 'poster', // Representative video frame
+  PREVIEW = 'preview', // Short muted video loop
+  STORYBOARD = 'storyboard', // Video scrubbing sprite sheet and its WebVTT track
+}
@@ -0,0 +1,8 @@
+export enum MediaStatus {
+  PENDING_UPLOAD = 'pending_upload',
+  UPLOADED = 'uploaded',
+  PROCESSING = 'processing',
+  TRANSCODING = 'transcoding',
+  READY = 'ready',
+  FAILED = 'failed',
+}
@@ -0,0 +1,5 @@
+export enum ProcessingStepStatus {
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  SKIPPED = 'skipped',
+}
@@ -0,0 +1,4 @@
+export enum UsageKind {
+  ORIGINAL = 'original',
+  DERIVATIVE = 'derivative',
+}
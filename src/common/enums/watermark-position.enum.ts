@@ -0,0 +1,11 @@
+export enum WatermarkPosition {
+  TOP_LEFT = 'top_left',
+  TOP = 'top',
+  TOP_RIGHT = 'top_right',
+  LEFT = 'left',
+  CENTER = 'center',
+  RIGHT = 'right',
+  BOTTOM_LEFT = 'bottom_left',
+  BOTTOM = 'bottom',
+  BOTTOM_RIGHT = 'bottom_right',
+}
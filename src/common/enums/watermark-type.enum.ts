@@ -0,0 +1,4 @@
+export enum WatermarkType {
+  IMAGE = 'image', // Overlay of an uploaded image, e.g. a logo
+  TEXT = 'text',
+}
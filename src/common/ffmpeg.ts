@@ -0,0 +1,58 @@
+// src/common/ffmpeg.ts
+
+import ffmpeg from 'fluent-ffmpeg';
+
+const ffmpegPath = process.env.FFMPEG_PATH || '/opt/homebrew/bin/ffmpeg';
+const ffprobePath = ffmpegPath.replace('ffmpeg', 'ffprobe');
+
+ffmpeg.setFfmpegPath(ffmpegPath);
+ffmpeg.setFfprobePath(ffprobePath);
+
+/**
+ * Displayed size, duration and audio presence of a video file.
+ */
+export interface VideoProbe {
+  width: number;
+  height: number;
+  duration: number; // in seconds
+  hasAudio: boolean;
+}
+
+/**
+ * Probes a local video file. Width and height are as displayed, after the
+ * rotation that ffmpeg applies when decoding.
+ */
+export async function probeVideo(inputPath: string): Promise<VideoProbe> {
+  const data = await new Promise<ffmpeg.FfprobeData>((resolve, reject) =>
+    ffmpeg.ffprobe(inputPath, (err, result) =>
+      err ? reject(err) : resolve(result)
+    )
+  );
+
+  const video = data.streams.find(stream => stream.codec_type === 'video');
+  if (!video?.width || !video.height) {
+    throw new Error('No video stream found');
+  }
+
+  // Phone videos are often stored sideways with a rotation that ffmpeg applies
+  const rotation = Math.abs(
+    Number(
+      video.tags?.rotate ??
+        (video as any).side_data_list?.find(side => 'rotation' in side)
+          ?.rotation ??
+        0
+    )
+  );
+  const sideways = rotation % 180 === 90;
+  return {
+    width: sideways ? video.height : video.width,
+    height: sideways ? video.width : video.height,
+    duration: parseFloat(String(data.format.duration ?? video.duration)) || 0,
+    hasAudio: data.streams.some(stream => stream.codec_type === 'audio'),
+  };
+}
+
+/**
+ * fluent-ffmpeg, pointed at the `FFMPEG_PATH` binaries.
+ */
+export { ffmpeg };
@@ -15,6 +15,7 @@ export default () => ({
   cognito: {
     userPoolId: process.env.COGNITO_USER_POOL_ID,
     clientId: process.env.COGNITO_CLIENT_ID,
+    adminGroup: process.env.COGNITO_ADMIN_GROUP || 'admin',
   },
   logLevel: process.env.LOG_LEVEL || 'info',
   rateLimit: {
@@ -30,4 +31,129 @@ export default () => ({
     s3BucketName: process.env.AWS,
     rekognitionRegion: process.env.AWS_REKOGNITION_REGION,
   },
+  storage: {
+    driver: process.env.STORAGE_DRIVER || 's3', // 's3' or 'local'
+    localRoot: process.env.STORAGE_LOCAL_ROOT || 'blobs',
+    localBaseUrl:
+      process.env.STORAGE_LOCAL_BASE_URL ||
+      `http://localhost:${parseInt(process.env.PORT!, 10) || 3000}`,
+    signingSecret: process.env.STORAGE_SIGNING_SECRET,
+  },
+  faceDetection: {
+    driver: process.env.FACE_DETECTION_DRIVER || 'rekognition', // 'rekognition' or 'local'
+  },
+  transcoding: {
+    driver: process.env.TRANSCODING_DRIVER || 'mediaconvert', // 'mediaconvert' or 'ffmpeg'
+    mediaConvertRoleArn:
+      process.env.MEDIACONVERT_ROLE_ARN ||
+      'arn:aws:iam::529088281346:role/MediaConvertRole',
+    // Checked in order; the first profile whose `match` fits the source video
+    // is used, and the last one is the fallback. Bitrates are in kbit/s.
+    profiles: [
+      {
+        name: 'profile-loop',
+        codec: 'h264',
+        segmentSeconds: 2,
+        dash: false,
+        match: { maxDuration: 15 },
+        renditions: [
+          { name: '720p', height: 720, videoBitrate: 2000, audioBitrate: 96 },
+          { name: '480p', height: 480, videoBitrate: 1000, audioBitrate: 64 },
+        ],
+      },
+      {
+        name: 'feed-short',
+        codec: 'h264',
+        segmentSeconds: 4,
+        dash: false,
+        match: { maxDuration: 180 },
+        renditions: [
+          {
+            name: '1080p',
+            height: 1080,
+            videoBitrate: 5000,
+            audioBitrate: 128,
+          },
+          { name: '720p', height: 720, videoBitrate: 2800, audioBitrate: 128 },
+          { name: '480p', height: 480, videoBitrate: 1400, audioBitrate: 96 },
+          { name: '360p', height: 360, videoBitrate: 800, audioBitrate: 64 },
+        ],
+      },
+      {
+        name: 'long-form-uhd',
+        codec: 'hevc',
+        segmentSeconds: 6,
+        dash: true,
+        match: { minResolution: 1440 },
+        renditions: [
+          {
+            name: '2160p',
+            height: 2160,
+            videoBitrate: 12000,
+            audioBitrate: 192,
+          },
+          {
+            name: '1440p',
+            height: 1440,
+            videoBitrate: 6000,
+            audioBitrate: 160,
+          },
+          {
+            name: '1080p',
+            height: 1080,
+            videoBitrate: 3500,
+            audioBitrate: 128,
+          },
+          { name: '720p', height: 720, videoBitrate: 1800, audioBitrate: 128 },
+          { name: '480p', height: 480, videoBitrate: 900, audioBitrate: 96 },
+        ],
+      },
+      {
+        name: 'long-form',
+        codec: 'h264',
+        segmentSeconds: 6,
+        dash: true,
+        renditions: [
+          {
+            name: '1080p',
+            height: 1080,
+            videoBitrate: 5000,
+            audioBitrate: 128,
+          },
+          { name: '720p', height: 720, videoBitrate: 2800, audioBitrate: 128 },
+          { name: '480p', height: 480, videoBitrate: 1400, audioBitrate: 96 },
+          { name: '360p', height: 360, videoBitrate: 800, audioBitrate: 64 },
+        ],
+      },
+    ],
+  },
+  render: {
+    signingSecret: process.env.RENDER_SIGNING_SECRET,
+    baseUrl:
+      process.env.RENDER_BASE_URL ||
+      `http://localhost:${parseInt(process.env.PORT!, 10) || 3000}`,
+    maxDimension: parseInt(process.env.RENDER_MAX_DIMENSION!, 10) || 4096,
+    maxRenditionsPerMedia:
+      parseInt(process.env.RENDER_MAX_RENDITIONS_PER_MEDIA!, 10) || 50,
+  },
+  uploads: {
+    pendingTtlMinutes:
+      parseInt(process.env.UPLOAD_PENDING_TTL_MINUTES!, 10) || 24 * 60, // 24 hours
+    reapBatchSize: parseInt(process.env.UPLOAD_REAP_BATCH_SIZE!, 10) || 100,
+  },
+  pipelines: {
+    // Comma-separated step names, overriding the default pipeline of each media type
+    profile_picture: process.env.PIPELINE_PROFILE_PICTURE?.split(','),
+    album_cover_image: process.env.PIPELINE_ALBUM_COVER_IMAGE?.split(','),
+    image: process.env.PIPELINE_IMAGE?.split(','),
+    video: process.env.PIPELINE_VIDEO?.split(','),
+  },
+  quotas: {
+    defaultPlan: process.env.QUOTA_DEFAULT_PLAN || 'free',
+    plans: {
+      free: parseInt(process.env.QUOTA_FREE_BYTES!, 10) || 5 * 1024 ** 3, // 5 GB
+      plus: parseInt(process.env.QUOTA_PLUS_BYTES!, 10) || 50 * 1024 ** 3, // 50 GB
+      pro: parseInt(process.env.QUOTA_PRO_BYTES!, 10) || 500 * 1024 ** 3, // 500 GB
+    },
+  },
 });
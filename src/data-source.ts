@@ -3,7 +3,12 @@ import * as path from 'path';
 import * as dotenv from 'dotenv';
 import * as fs from 'fs';
 import { Media } from './media/media.entity';
+import { MediaDerivative } from './media/media-derivative.entity';
 import { Album } from './albums/albums.entity';
+import { StorageUsage } from './usage/usage.entity';
+import { UserSettings } from './settings/user-settings.entity';
+import { WatermarkProfile } from './watermarks/watermark-profile.entity';
+import { CaptionTrack } from './captions/caption-track.entity';
 
 // Import other entities as needed
 
@@ -39,7 +44,15 @@ export const AppDataSource = new DataSource({
   username: process.env.DB_USERNAME,
   password: process.env.DB_PASSWORD,
   database: process.env.DB_DATABASE,
-  entities: [Media, Album],
+  entities: [
+    Media,
+    MediaDerivative,
+    Album,
+    StorageUsage,
+    UserSettings,
+    WatermarkProfile,
+    CaptionTrack,
+  ],
   migrations: [__dirname + '/migrations/**/*{.ts,.js}'],
   synchronize: false,
   ssl: sslOptions,
@@ -3,6 +3,7 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import { ConfigService } from '@nestjs/config';
 import helmet from 'helmet';
@@ -22,6 +23,9 @@ async function bootstrap() {
     allowedHeaders: ['Content-Type', 'Authorization'],
   });
 
+  // Subtitle tracks are uploaded as JSON and outgrow the default 100kb limit
+  (app as NestExpressApplication).useBodyParser('json', { limit: '1mb' });
+
   // Global Validation Pipe
   app.useGlobalPipes(new ValidationPipe({ whitelist: true, transform: true }));
 
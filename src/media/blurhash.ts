@@ -0,0 +1,110 @@
+// src/media/blurhash.ts
+
+/**
+ * BlurHash encoder (https://blurha.sh). Encodes an image as a short string
+ * that clients decode into a blurred placeholder while the image loads.
+ */
+
+const BASE83_DIGITS =
+  '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+function encode83(value: number, length: number): string {
+  let result = '';
+  for (let i = 1; i <= length; i++) {
+    const digit = Math.floor(value / Math.pow(83, length - i)) % 83;
+    result += BASE83_DIGITS[digit];
+  }
+  return result;
+}
+
+function sRGBToLinear(value: number): number {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function linearToSRGB(value: number): number {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308
+    ? Math.round(v * 12.92 * 255 + 0.5)
+    : Math.round((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5);
+}
+
+function signPow(value: number, exponent: number): number {
+  return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+}
+
+/**
+ * Encodes raw interleaved pixels (3 or 4 channels, sRGB) as a BlurHash.
+ * @param componentsX Horizontal detail, 1-9.
+ * @param componentsY Vertical detail, 1-9.
+ */
+export function encodeBlurhash(
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+  channels: number,
+  componentsX = 4,
+  componentsY = 3
+): string {
+  const factors: [number, number, number][] = [];
+
+  for (let j = 0; j < componentsY; j++) {
+    for (let i = 0; i < componentsX; i++) {
+      const normalisation = i === 0 && j === 0 ? 1 : 2;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const basis =
+            normalisation *
+            Math.cos((Math.PI * i * x) / width) *
+            Math.cos((Math.PI * j * y) / height);
+          const offset = (y * width + x) * channels;
+          r += basis * sRGBToLinear(pixels[offset]);
+          g += basis * sRGBToLinear(pixels[offset + 1]);
+          b += basis * sRGBToLinear(pixels[offset + 2]);
+        }
+      }
+
+      const scale = 1 / (width * height);
+      factors.push([r * scale, g * scale, b * scale]);
+    }
+  }
+
+  const [dc, ...ac] = factors;
+  let hash = encode83(componentsX - 1 + (componentsY - 1) * 9, 1);
+
+  let maximumValue = 1;
+  if (ac.length) {
+    const actualMaximum = Math.max(...ac.flat().map(Math.abs));
+    const quantisedMaximum = Math.max(
+      0,
+      Math.min(82, Math.floor(actualMaximum * 166 - 0.5))
+    );
+    maximumValue = (quantisedMaximum + 1) / 166;
+    hash += encode83(quantisedMaximum, 1);
+  } else {
+    hash += encode83(0, 1);
+  }
+
+  hash += encode83(
+    (linearToSRGB(dc[0]) << 16) +
+      (linearToSRGB(dc[1]) << 8) +
+      linearToSRGB(dc[2]),
+    4
+  );
+
+  for (const factor of ac) {
+    const [r, g, b] = factor.map(value =>
+      Math.max(
+        0,
+        Math.min(18, Math.floor(signPow(value / maximumValue, 0.5) * 9 + 9.5))
+      )
+    );
+    hash += encode83(r * 19 * 19 + g * 19 + b, 2);
+  }
+
+  return hash;
+}
@@ -0,0 +1,95 @@
+// src/media/derivative-store.service.ts
+
+import { Inject, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { StorageProvider } from 'src/aws/storage/storage.provider';
+import { UsageService } from 'src/usage/usage.service';
+import { DerivativeKind } from '../common/enums/derivative-kind.enum';
+import { UsageKind } from '../common/enums/usage-kind.enum';
+import { Media } from './media.entity';
+import { MediaDerivative } from './media-derivative.entity';
+
+/**
+ * A file generated from a media item's original.
+ */
+export interface DerivativeOutput {
+  kind: DerivativeKind;
+  key: string;
+  body: Buffer;
+  contentType: string;
+  width?: number;
+  height?: number;
+}
+
+@Injectable()
+export class DerivativeStore {
+  constructor(
+    @InjectRepository(MediaDerivative)
+    private derivativeRepository: Repository<MediaDerivative>,
+    @Inject('STORAGE') private readonly storage: StorageProvider,
+    private readonly usageService: UsageService
+  ) {}
+
+  /**
+   * Uploads a derivative of a media item, records it in the derivative
+   * registry and charges its bytes to the owner.
+   */
+  async store(
+    media: Media,
+    { kind, key, body, contentType, width, height }: DerivativeOutput
+  ): Promise<MediaDerivative> {
+    await this.storage.putObject(key, body, {
+      contentType,
+      cacheControl: 'max-age=31536000', // Cache for 1 year
+    });
+
+    await this.derivativeRepository.upsert(
+      {
+        mediaId: media.id,
+        kind,
+        key,
+        url: this.storage.getPublicUrl(key),
+        format: contentType.split('/').pop()!,
+        width: width ?? null,
+        height: height ?? null,
+        bytes: body.length,
+      },
+      ['key']
+    );
+
+    await this.usageService.recordObject({
+      userId: media.uploadedBy,
+      mediaId: media.id,
+      mediaType: media.type,
+      kind: UsageKind.DERIVATIVE,
+      key,
+      bytes: body.length,
+    });
+
+    return this.derivativeRepository.findOneByOrFail({ key });
+  }
+
+  /**
+   * Deletes a derivative, unregisters it and releases its bytes.
+   */
+  async remove(key: string): Promise<void> {
+    await this.storage.deleteObject(key);
+    await this.derivativeRepository.delete({ key });
+    await this.usageService.removeKey(key);
+  }
+
+  /**
+   * Finds a registered derivative by storage key.
+   */
+  findByKey(key: string): Promise<MediaDerivative | null> {
+    return this.derivativeRepository.findOneBy({ key });
+  }
+
+  /**
+   * Counts the derivatives of a kind registered for a media item.
+   */
+  count(mediaId: string, kind: DerivativeKind): Promise<number> {
+    return this.derivativeRepository.countBy({ mediaId, kind });
+  }
+}
@@ -0,0 +1,38 @@
+// src/media/dto/complete-multipart-upload.dto.ts
+
+import {
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class MultipartPartDto {
+  @ApiProperty({ description: 'Part number', minimum: 1, maximum: 10000 })
+  @IsInt()
+  @Min(1)
+  @Max(10000)
+  partNumber!: number;
+
+  @ApiProperty({ description: 'ETag returned when the part was uploaded' })
+  @IsString()
+  etag!: string;
+}
+
+export class CompleteMultipartUploadDto {
+  @ApiPropertyOptional({
+    description:
+      'Uploaded parts. When omitted, all parts stored so far are used.',
+    type: [MultipartPartDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => MultipartPartDto)
+  parts?: MultipartPartDto[];
+}
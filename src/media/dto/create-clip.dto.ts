@@ -0,0 +1,63 @@
+// src/media/dto/create-clip.dto.ts
+
+import {
+  IsBoolean,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  IsArray,
+  ArrayNotEmpty,
+  ArrayUnique,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CropRectDto } from './crop-rect.dto';
+
+export class CreateClipDto {
+  @ApiProperty({ description: 'Start of the clip, in seconds', example: 12.5 })
+  @IsNumber()
+  @Min(0)
+  start!: number;
+
+  @ApiProperty({ description: 'End of the clip, in seconds', example: 27.5 })
+  @IsNumber()
+  @Min(0)
+  end!: number;
+
+  @ApiPropertyOptional({
+    description: 'Crop rectangle, as fractions of the video frame size',
+    type: CropRectDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CropRectDto)
+  crop?: CropRectDto;
+
+  @ApiPropertyOptional({ description: 'Drop the audio track' })
+  @IsOptional()
+  @IsBoolean()
+  mute?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Album ID to associate the clip with',
+    type: 'string',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  albumId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Tags associated with the clip',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsString({ each: true })
+  tags?: string[];
+}
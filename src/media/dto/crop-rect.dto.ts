@@ -0,0 +1,30 @@
+// src/media/dto/crop-rect.dto.ts
+
+import { IsNumber, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CropRectDto {
+  @ApiProperty({ description: 'Left edge, as a fraction of the image width' })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  x!: number;
+
+  @ApiProperty({ description: 'Top edge, as a fraction of the image height' })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  y!: number;
+
+  @ApiProperty({ description: 'Width, as a fraction of the image width' })
+  @IsNumber()
+  @Min(0.01)
+  @Max(1)
+  width!: number;
+
+  @ApiProperty({ description: 'Height, as a fraction of the image height' })
+  @IsNumber()
+  @Min(0.01)
+  @Max(1)
+  height!: number;
+}
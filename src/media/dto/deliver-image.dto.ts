@@ -0,0 +1,18 @@
+// src/media/dto/deliver-image.dto.ts
+
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class DeliverImageDto {
+  @ApiPropertyOptional({
+    description:
+      'Width the image is displayed at, in device pixels. Omit for the optimized image.',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(4096)
+  w?: number;
+}
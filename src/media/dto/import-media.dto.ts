@@ -0,0 +1,44 @@
+// src/media/dto/import-media.dto.ts
+
+import {
+  IsEnum,
+  IsString,
+  IsOptional,
+  IsUUID,
+  IsArray,
+  IsUrl,
+  ArrayNotEmpty,
+  ArrayUnique,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MediaType } from '../../common/enums/media-type.enum';
+
+export class ImportMediaDto {
+  @ApiProperty({ description: 'HTTPS URL of the file to import' })
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  url!: string;
+
+  @ApiProperty({ description: 'Type of media', enum: MediaType })
+  @IsEnum(MediaType)
+  type!: MediaType;
+
+  @ApiPropertyOptional({
+    description: 'Album ID to associate the media with',
+    type: 'string',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  albumId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Tags associated with the media',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsString({ each: true })
+  tags?: string[];
+}
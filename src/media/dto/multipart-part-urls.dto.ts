@@ -0,0 +1,27 @@
+// src/media/dto/multipart-part-urls.dto.ts
+
+import {
+  IsArray,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  ArrayUnique,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MultipartPartUrlsDto {
+  @ApiProperty({
+    description: 'Part numbers (1-10000) to issue upload URLs for',
+    type: [Number],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(100)
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(10000, { each: true })
+  partNumbers!: number[];
+}
@@ -8,9 +8,12 @@ import {
   IsArray,
   ArrayNotEmpty,
   ArrayUnique,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { MediaType } from '../../common/enums/media-type.enum';
+import { CropRectDto } from './crop-rect.dto';
 
 export class PresignedUrlDto {
   @ApiProperty({ description: 'Type of media', enum: MediaType })
@@ -40,4 +43,14 @@ export class PresignedUrlDto {
   @ArrayUnique()
   @IsString({ each: true })
   tags?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Crop rectangle for the thumbnail, as fractions of the image size. Defaults to a face-aware smart crop.',
+    type: CropRectDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CropRectDto)
+  crop?: CropRectDto;
 }
@@ -0,0 +1,80 @@
+// src/media/dto/render-image.dto.ts
+
+import {
+  IsEnum,
+  IsHexadecimal,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export enum RenderFit {
+  COVER = 'cover',
+  CONTAIN = 'contain',
+  FILL = 'fill',
+  INSIDE = 'inside',
+  OUTSIDE = 'outside',
+}
+
+export enum RenderFormat {
+  WEBP = 'webp',
+  AVIF = 'avif',
+  JPEG = 'jpeg',
+}
+
+export class RenderParamsDto {
+  @ApiPropertyOptional({ description: 'Width in CSS pixels' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(4096)
+  w?: number;
+
+  @ApiPropertyOptional({ description: 'Height in CSS pixels' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(4096)
+  h?: number;
+
+  @ApiPropertyOptional({
+    description: 'How the image fits both dimensions',
+    enum: RenderFit,
+  })
+  @IsOptional()
+  @IsEnum(RenderFit)
+  fit?: RenderFit;
+
+  @ApiPropertyOptional({ description: 'Output format', enum: RenderFormat })
+  @IsOptional()
+  @IsEnum(RenderFormat)
+  format?: RenderFormat;
+
+  @ApiPropertyOptional({ description: 'Quality (1-100)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  q?: number;
+
+  @ApiPropertyOptional({ description: 'Device pixel ratio (1-3)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 1 })
+  @Min(1)
+  @Max(3)
+  dpr?: number;
+}
+
+export class RenderImageDto extends RenderParamsDto {
+  @ApiProperty({ description: 'HMAC signature of the other parameters' })
+  @IsHexadecimal()
+  sig!: string;
+}
@@ -0,0 +1,25 @@
+// src/media/dto/reprocess-media.dto.ts
+
+import {
+  IsArray,
+  IsOptional,
+  IsString,
+  ArrayNotEmpty,
+  ArrayUnique,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ReprocessMediaDto {
+  @ApiPropertyOptional({
+    description:
+      "Processing steps to re-run, in pipeline order. Defaults to the media type's whole pipeline.",
+    type: [String],
+    example: ['thumbnail', 'responsive-images'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsString({ each: true })
+  steps?: string[];
+}
@@ -0,0 +1,55 @@
+// src/media/file-signature.spec.ts
+
+import { detectMimetype, FILE_SIGNATURE_LENGTH } from './file-signature';
+
+/**
+ * Builds the leading bytes of an ISO base media file: an ftyp box with the
+ * given major and compatible brands.
+ */
+const ftyp = (major: string, compatible: string[] = []) => {
+  const box = Buffer.alloc(16 + 4 * compatible.length);
+  box.writeUInt32BE(box.length, 0);
+  box.write('ftyp', 4, 'latin1');
+  box.write(major, 8, 'latin1');
+  compatible.forEach((brand, i) => box.write(brand, 16 + 4 * i, 'latin1'));
+  return Buffer.concat([box, Buffer.alloc(16)]).subarray(
+    0,
+    FILE_SIGNATURE_LENGTH
+  );
+};
+
+describe('detectMimetype', () => {
+  it.each([
+    ['isom', 'video/mp4'],
+    ['qt  ', 'video/quicktime'],
+    ['3gp4', 'video/mp4'],
+    ['3gp5', 'video/mp4'],
+    ['MSNV', 'video/mp4'],
+    ['heic', 'image/heic'],
+    ['avif', 'image/avif'],
+  ])('recognises the major brand %p', (brand, mimetype) => {
+    expect(detectMimetype(ftyp(brand))).toBe(mimetype);
+  });
+
+  it.each([
+    ['f4v ', ['isom', 'mp42'], 'video/mp4'],
+    ['M4A ', ['M4A ', 'mp42', 'isom'], 'video/mp4'],
+    ['crx ', ['qt  '], 'video/quicktime'],
+  ])(
+    'falls back to the compatible brands of %p',
+    (brand, compatible, mimetype) => {
+      expect(detectMimetype(ftyp(brand, compatible))).toBe(mimetype);
+    }
+  );
+
+  it('ignores bytes past the end of the ftyp box', () => {
+    const header = ftyp('abcd');
+    header.write('isom', 16, 'latin1');
+
+    expect(detectMimetype(header)).toBeNull();
+  });
+
+  it('rejects ftyp boxes with no known brand', () => {
+    expect(detectMimetype(ftyp('abcd', ['efgh']))).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+// src/media/file-signature.ts
+
+/**
+ * Number of leading bytes needed to recognise every supported format.
+ */
+export const FILE_SIGNATURE_LENGTH = 32;
+
+// ISO base media (ftyp) brands and the mimetype they identify
+const FTYP_BRANDS: Record<string, string> = {
+  'qt  ': 'video/quicktime',
+  isom: 'video/mp4',
+  iso2: 'video/mp4',
+  mp41: 'video/mp4',
+  mp42: 'video/mp4',
+  avc1: 'video/mp4',
+  dash: 'video/mp4',
+  'M4V ': 'video/mp4',
+  '3gp4': 'video/mp4',
+  '3gp5': 'video/mp4',
+  '3gp6': 'video/mp4',
+  '3g2a': 'video/mp4',
+  MSNV: 'video/mp4',
+  heic: 'image/heic',
+  heix: 'image/heic',
+  hevc: 'image/heic',
+  hevx: 'image/heic',
+  heim: 'image/heic',
+  heis: 'image/heic',
+  mif1: 'image/heif',
+  msf1: 'image/heif',
+  avif: 'image/avif',
+  avis: 'image/avif',
+};
+
+// Formats that share a container and are routinely mislabelled by clients
+const COMPATIBLE_MIMETYPES: string[][] = [
+  ['video/mp4', 'video/quicktime'],
+  ['image/heif', 'image/heic'],
+  ['image/heif', 'image/avif'],
+];
+
+/**
+ * Detects a file's mimetype from its leading bytes, or returns `null` if the
+ * format is not recognised.
+ */
+export function detectMimetype(header: Buffer): string | null {
+  const ascii = (start: number, end: number) =>
+    header.subarray(start, end).toString('latin1');
+
+  if (header.length >= 3 && header[0] === 0xff && header[1] === 0xd8) {
+    return header[2] === 0xff ? 'image/jpeg' : null;
+  }
+  if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') {
+    return 'image/png';
+  }
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+    return 'image/gif';
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (ascii(4, 8) === 'ftyp') {
+    return detectFtypBrand(header);
+  }
+  if (
+    header.length >= 4 &&
+    header[0] === 0x00 &&
+    header[1] === 0x00 &&
+    header[2] === 0x01 &&
+    (header[3] === 0xba || header[3] === 0xb3)
+  ) {
+    return 'video/mpeg';
+  }
+  return null;
+}
+
+/**
+ * Identifies an ISO base media file by the major brand of its ftyp box, or
+ * else by the first known brand it lists as compatible (from byte 16 on).
+ */
+function detectFtypBrand(header: Buffer): string | null {
+  // Sizes below 16 mean "to the end of the file" or a 64-bit size field
+  const size = header.readUInt32BE(0);
+  const boxEnd = size >= 16 ? Math.min(size, header.length) : header.length;
+  const brands = [header.subarray(8, 12).toString('latin1')];
+  for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+    brands.push(header.subarray(offset, offset + 4).toString('latin1'));
+  }
+
+  for (const brand of brands) {
+    if (FTYP_BRANDS[brand]) {
+      return FTYP_BRANDS[brand];
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns whether detected content satisfies a declared mimetype.
+ */
+export function isCompatibleMimetype(
+  declared: string,
+  detected: string
+): boolean {
+  return (
+    declared === detected ||
+    COMPATIBLE_MIMETYPES.some(
+      group => group.includes(declared) && group.includes(detected)
+    )
+  );
+}
@@ -0,0 +1,86 @@
+// src/media/image-formats.ts
+
+import { AvifOptions, JpegOptions, WebpOptions } from 'sharp';
+import { MediaDerivative } from './media-derivative.entity';
+
+/**
+ * An encoding that optimized and responsive images are delivered in.
+ */
+export interface DeliveryFormat {
+  format: 'avif' | 'webp' | 'jpeg';
+  extension: string;
+  contentType: string;
+  options: AvifOptions | WebpOptions | JpegOptions;
+}
+
+/**
+ * Formats generated for delivery, most efficient first. JPEG is the fallback
+ * every client can display.
+ */
+export const DELIVERY_FORMATS: DeliveryFormat[] = [
+  {
+    format: 'avif',
+    extension: 'avif',
+    contentType: 'image/avif',
+    options: { quality: 50 }, // AVIF holds up at much lower quality settings
+  },
+  {
+    format: 'webp',
+    extension: 'webp',
+    contentType: 'image/webp',
+    options: { quality: 80 },
+  },
+  {
+    format: 'jpeg',
+    extension: 'jpg',
+    contentType: 'image/jpeg',
+    options: { quality: 80, mozjpeg: true },
+  },
+];
+
+/**
+ * Lists the delivery formats a client accepts according to its `Accept`
+ * header, most efficient first. JPEG is always included as the fallback.
+ * Wildcards are not taken as support, since browsers that can decode AVIF or
+ * WebP list them explicitly.
+ */
+export function negotiateFormats(accept?: string): string[] {
+  const accepted = new Set(
+    (accept ?? '')
+      .split(',')
+      .map(range => range.trim().split(';'))
+      .filter(([, ...params]) =>
+        params.every(param => param.trim().replace(/\s/g, '') !== 'q=0')
+      )
+      .map(([type]) => type.trim().toLowerCase())
+  );
+
+  return DELIVERY_FORMATS.filter(
+    ({ contentType, format }) => format === 'jpeg' || accepted.has(contentType)
+  ).map(({ format }) => format);
+}
+
+/**
+ * Picks the variant to deliver: the first accepted format that has variants,
+ * then the smallest variant at least `width` wide, or the largest one.
+ */
+export function selectVariant(
+  variants: MediaDerivative[],
+  formats: string[],
+  width?: number
+): MediaDerivative | null {
+  for (const format of formats) {
+    const candidates = variants
+      .filter(variant => variant.format === format)
+      .sort((a, b) => (a.width ?? 0) - (b.width ?? 0));
+    if (!candidates.length) {
+      continue;
+    }
+
+    return (
+      (width && candidates.find(variant => (variant.width ?? 0) >= width)) ||
+      candidates[candidates.length - 1]
+    );
+  }
+  return null;
+}
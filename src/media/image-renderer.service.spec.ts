@@ -0,0 +1,162 @@
+// src/media/image-renderer.service.spec.ts
+
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MediaStatus } from '../common/enums/media-status.enum';
+import { MediaType } from '../common/enums/media-type.enum';
+import {
+  RenderFit,
+  RenderFormat,
+  RenderParamsDto,
+} from './dto/render-image.dto';
+import { ImageRenderer } from './image-renderer.service';
+
+describe('ImageRenderer', () => {
+  const mediaId = 'media-1';
+  let mediaRepository: { findOneBy: jest.Mock };
+  let derivativeStore: {
+    findByKey: jest.Mock;
+    count: jest.Mock;
+    store: jest.Mock;
+  };
+
+  const createRenderer = (render: Record<string, unknown>) =>
+    new ImageRenderer(
+      mediaRepository as any,
+      { getObject: jest.fn() } as any,
+      derivativeStore as any,
+      new ConfigService({ render }),
+      { log: jest.fn() } as any
+    );
+
+  let renderer: ImageRenderer;
+
+  beforeEach(() => {
+    mediaRepository = {
+      findOneBy: jest.fn().mockResolvedValue({
+        id: mediaId,
+        type: MediaType.IMAGE,
+        status: MediaStatus.READY,
+        isFlagged: false,
+        key: 'image/photo.jpg',
+      }),
+    };
+    derivativeStore = {
+      findByKey: jest.fn().mockResolvedValue(null),
+      count: jest.fn().mockResolvedValue(0),
+      store: jest.fn(),
+    };
+    renderer = createRenderer({
+      signingSecret: 'test-secret',
+      baseUrl: 'https://media.example.com',
+      maxDimension: 4096,
+      maxRenditionsPerMedia: 2,
+    });
+  });
+
+  /**
+   * Splits a render URL into its parameters, as the query would arrive.
+   */
+  const parse = (url: string) => {
+    const { pathname, searchParams } = new URL(url);
+    const { sig, ...params } = Object.fromEntries(searchParams);
+    return { pathname, sig, params: params as unknown as RenderParamsDto };
+  };
+
+  describe('signing', () => {
+    const params: RenderParamsDto = {
+      w: 400,
+      h: 300,
+      fit: RenderFit.COVER,
+      format: RenderFormat.WEBP,
+      q: 80,
+      dpr: 2,
+    };
+
+    it('builds URLs whose signature verifies', () => {
+      const {
+        pathname,
+        sig,
+        params: query,
+      } = parse(renderer.buildUrl(mediaId, params));
+
+      expect(pathname).toBe(`/media/${mediaId}/render`);
+      expect(() => renderer.verify(mediaId, query, sig)).not.toThrow();
+    });
+
+    it('signs the same parameters the same way in any order', () => {
+      const reordered: RenderParamsDto = {
+        dpr: 2,
+        q: 80,
+        format: RenderFormat.WEBP,
+        fit: RenderFit.COVER,
+        h: 300,
+        w: 400,
+      };
+
+      expect(parse(renderer.buildUrl(mediaId, reordered)).sig).toBe(
+        parse(renderer.buildUrl(mediaId, params)).sig
+      );
+    });
+
+    it.each([
+      ['a changed width', { w: '4000' }],
+      ['an added parameter', { q: '100' }],
+      ['a removed parameter', { dpr: undefined }],
+    ])('rejects %s', (_case, change) => {
+      const { sig, params: query } = parse(
+        renderer.buildUrl(mediaId, { w: 400, dpr: 2 })
+      );
+
+      expect(() =>
+        renderer.verify(mediaId, { ...query, ...(change as any) }, sig)
+      ).toThrow(ForbiddenException);
+    });
+
+    it('rejects signatures issued for other media', () => {
+      const { sig, params: query } = parse(
+        renderer.buildUrl('media-2', { w: 400 })
+      );
+
+      expect(() => renderer.verify(mediaId, query, sig)).toThrow(
+        ForbiddenException
+      );
+    });
+
+    it.each(['', 'deadbeef', 'not-hex'])('rejects the signature %p', sig => {
+      expect(() => renderer.verify(mediaId, { w: 400 }, sig)).toThrow(
+        ForbiddenException
+      );
+    });
+
+    it('refuses to sign without a configured secret', () => {
+      const unsigned = createRenderer({ baseUrl: 'https://media.example.com' });
+
+      expect(() => unsigned.buildUrl(mediaId, { w: 400 })).toThrow(
+        'RENDER_SIGNING_SECRET is not configured'
+      );
+    });
+  });
+
+  describe('rendition limit', () => {
+    it('refuses new renditions once the media has reached the limit', async () => {
+      derivativeStore.count.mockResolvedValue(2);
+
+      await expect(renderer.render(mediaId, { w: 400 })).rejects.toThrow(
+        BadRequestException
+      );
+      expect(derivativeStore.store).not.toHaveBeenCalled();
+    });
+
+    it('still serves renditions that already exist', async () => {
+      derivativeStore.count.mockResolvedValue(2);
+      derivativeStore.findByKey.mockResolvedValue({
+        url: 'https://cdn.example.com/image/photo_render.webp',
+      });
+
+      await expect(renderer.render(mediaId, { w: 400 })).resolves.toBe(
+        'https://cdn.example.com/image/photo_render.webp'
+      );
+    });
+  });
+});
@@ -0,0 +1,209 @@
+// src/media/image-renderer.service.ts
+
+import sharp from 'sharp';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { StorageProvider, toPublicKey } from 'src/aws/storage/storage.provider';
+import { LoggerService } from 'src/logger/logger.service';
+import { DerivativeKind } from '../common/enums/derivative-kind.enum';
+import { MediaStatus } from '../common/enums/media-status.enum';
+import { MediaType } from '../common/enums/media-type.enum';
+import { Media } from './media.entity';
+import { DerivativeStore } from './derivative-store.service';
+import {
+  RenderFit,
+  RenderFormat,
+  RenderParamsDto,
+} from './dto/render-image.dto';
+
+// Order in which parameters are signed
+const SIGNED_PARAMS: (keyof RenderParamsDto)[] = [
+  'w',
+  'h',
+  'fit',
+  'format',
+  'q',
+  'dpr',
+];
+
+const FORMAT_CONTENT_TYPES: Record<RenderFormat, string> = {
+  [RenderFormat.WEBP]: 'image/webp',
+  [RenderFormat.AVIF]: 'image/avif',
+  [RenderFormat.JPEG]: 'image/jpeg',
+};
+
+const FORMAT_EXTENSIONS: Record<RenderFormat, string> = {
+  [RenderFormat.WEBP]: 'webp',
+  [RenderFormat.AVIF]: 'avif',
+  [RenderFormat.JPEG]: 'jpg',
+};
+
+const DEFAULT_QUALITY = 80;
+
+/**
+ * Renders images at arbitrary sizes and formats on request. Parameters must
+ * be signed, so only sizes handed out to the owner can be rendered, and each
+ * rendition is stored and reused up to a per-media limit.
+ */
+@Injectable()
+export class ImageRenderer {
+  constructor(
+    @InjectRepository(Media)
+    private mediaRepository: Repository<Media>,
+    @Inject('STORAGE') private readonly storage: StorageProvider,
+    private readonly derivativeStore: DerivativeStore,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService
+  ) {}
+
+  /**
+   * Builds a signed render URL for a media item.
+   */
+  buildUrl(mediaId: string, params: RenderParamsDto): string {
+    const query = this.canonicalize(params);
+    const sig = this.sign(mediaId, query);
+    const baseUrl = this.configService.get<string>('render.baseUrl');
+    return `${baseUrl}/media/${mediaId}/render?${
+      query ? `${query}&` : ''
+    }sig=${sig}`;
+  }
+
+  /**
+   * Rejects parameters whose signature does not match.
+   */
+  verify(mediaId: string, params: RenderParamsDto, signature: string): void {
+    const expected = Buffer.from(
+      this.sign(mediaId, this.canonicalize(params)),
+      'hex'
+    );
+    const actual = Buffer.from(signature, 'hex');
+
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      throw new ForbiddenException('Invalid signature');
+    }
+  }
+
+  /**
+   * Renders an image with the given parameters, reusing an earlier rendition
+   * when there is one.
+   * @returns The public URL of the rendition.
+   */
+  async render(mediaId: string, params: RenderParamsDto): Promise<string> {
+    const media = await this.getRenderableMedia(mediaId);
+
+    const maxDimension = this.configService.get<number>('render.maxDimension')!;
+    const dpr = params.dpr ?? 1;
+    const scale = (value?: number) =>
+      value ? Math.min(Math.round(value * dpr), maxDimension) : undefined;
+    const width = scale(params.w);
+    const height = scale(params.h);
+    const fit = params.fit ?? RenderFit.COVER;
+    const format = params.format ?? RenderFormat.WEBP;
+    const quality = params.q ?? DEFAULT_QUALITY;
+
+    // Equivalent requests (e.g. w=200&dpr=2 and w=400) share one rendition
+    const fingerprint = createHash('sha256')
+      .update(JSON.stringify([width, height, fit, format, quality]))
+      .digest('hex')
+      .slice(0, 16);
+    const sourceKey = media.watermarkKey ?? media.masterKey ?? media.key;
+    const key = toPublicKey(sourceKey).replace(
+      /(\.\w+)$/,
+      `_render_${fingerprint}.${FORMAT_EXTENSIONS[format]}`
+    );
+
+    const existing = await this.derivativeStore.findByKey(key);
+    if (existing) {
+      return existing.url;
+    }
+
+    // Every rendition is charged to the owner, so cap how many can pile up
+    const maxRenditions = this.configService.get<number>(
+      'render.maxRenditionsPerMedia'
+    )!;
+    if (
+      (await this.derivativeStore.count(media.id, DerivativeKind.RENDITION)) >=
+      maxRenditions
+    ) {
+      throw new BadRequestException('Rendition limit reached for this media');
+    }
+
+    this.logger.log(`Rendering ${key} for media: ${mediaId}`);
+    const image = await this.storage.getObject(sourceKey);
+    const { data, info } = await sharp(image)
+      .rotate() // Apply EXIF orientation
+      .resize({
+        width: width ?? (height ? undefined : maxDimension),
+        height: height ?? (width ? undefined : maxDimension),
+        fit: width && height ? fit : RenderFit.INSIDE,
+        withoutEnlargement: true,
+      })
+      .toFormat(format, { quality })
+      .toBuffer({ resolveWithObject: true });
+
+    const derivative = await this.derivativeStore.store(media, {
+      kind: DerivativeKind.RENDITION,
+      key,
+      body: data,
+      contentType: FORMAT_CONTENT_TYPES[format],
+      width: info.width,
+      height: info.height,
+    });
+    return derivative.url;
+  }
+
+  /**
+   * Loads the media whose stored objects back a render, following duplicates
+   * to their original.
+   */
+  private async getRenderableMedia(mediaId: string): Promise<Media> {
+    let media = await this.mediaRepository.findOneBy({ id: mediaId });
+    if (media?.duplicateOfId) {
+      media = await this.mediaRepository.findOneBy({
+        id: media.duplicateOfId,
+      });
+    }
+
+    if (!media) {
+      throw new BadRequestException('Media not found');
+    }
+    if (
+      media.type === MediaType.VIDEO ||
+      media.status !== MediaStatus.READY ||
+      media.isFlagged
+    ) {
+      throw new BadRequestException('Media cannot be rendered');
+    }
+    return media;
+  }
+
+  /**
+   * Serializes the parameters that are set, in a fixed order.
+   */
+  private canonicalize(params: RenderParamsDto): string {
+    return SIGNED_PARAMS.filter(name => params[name] !== undefined)
+      .map(name => `${name}=${encodeURIComponent(String(params[name]))}`)
+      .join('&');
+  }
+
+  private sign(mediaId: string, query: string): string {
+    const secret = this.configService.get<string>('render.signingSecret');
+    if (!secret) {
+      throw new Error('RENDER_SIGNING_SECRET is not configured');
+    }
+    return createHmac('sha256', secret)
+      .update(`${mediaId}?${query}`)
+      .digest('hex');
+  }
+}
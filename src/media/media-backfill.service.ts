@@ -0,0 +1,153 @@
+// src/media/media-backfill.service.ts
+
+import { setTimeout as sleep } from 'timers/promises';
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Media } from './media.entity';
+import { MediaDerivative } from './media-derivative.entity';
+import { MediaService } from './media.service';
+import { MediaType } from '../common/enums/media-type.enum';
+import { MediaStatus } from '../common/enums/media-status.enum';
+import { DerivativeKind } from '../common/enums/derivative-kind.enum';
+import { LoggerService } from 'src/logger/logger.service';
+
+const BATCH_SIZE = 100;
+
+/**
+ * Selects the media to reprocess. All criteria are optional and combined.
+ */
+export interface BackfillCriteria {
+  type?: MediaType;
+  createdFrom?: Date;
+  createdTo?: Date;
+  missing?: DerivativeKind; // Only media without a derivative of this kind
+  limit?: number;
+}
+
+export interface BackfillOptions extends BackfillCriteria {
+  steps?: string[]; // Defaults to each media type's whole pipeline
+  ratePerSecond: number;
+  dryRun: boolean;
+}
+
+/**
+ * Running totals of a backfill, reported after every batch.
+ */
+export interface BackfillProgress {
+  matched: number;
+  processed: number;
+  published: number;
+  failed: number;
+}
+
+/**
+ * Re-queues processing for existing media in bulk. Used by the backfill
+ * command (`npm run backfill`).
+ */
+@Injectable()
+export class MediaBackfill {
+  constructor(
+    @InjectRepository(Media)
+    private mediaRepository: Repository<Media>,
+    private readonly mediaService: MediaService,
+    private readonly logger: LoggerService
+  ) {}
+
+  /**
+   * Publishes a `MEDIA_PROCESSING` reprocess event for every matching media
+   * item, at most `ratePerSecond` a second. In a dry run nothing is published.
+   */
+  async run(
+    options: BackfillOptions,
+    onProgress: (progress: BackfillProgress) => void = () => undefined
+  ): Promise<BackfillProgress> {
+    const matched = await this.buildQuery(options).getCount();
+    const progress: BackfillProgress = {
+      matched: options.limit ? Math.min(matched, options.limit) : matched,
+      processed: 0,
+      published: 0,
+      failed: 0,
+    };
+    const interval = 1000 / options.ratePerSecond;
+
+    // Keyset pagination, so media changing status mid-run does not shift pages
+    let afterId: string | null = null;
+    while (progress.processed < progress.matched) {
+      const query = this.buildQuery(options);
+      if (afterId) {
+        query.andWhere('media.id > :afterId', { afterId });
+      }
+      const batch = await query
+        .orderBy('media.id', 'ASC')
+        .take(Math.min(BATCH_SIZE, progress.matched - progress.processed))
+        .getMany();
+      if (!batch.length) {
+        break;
+      }
+
+      for (const media of batch) {
+        progress.processed++;
+        if (options.dryRun) {
+          this.logger.log(
+            `[dry run] Would reprocess ${media.type} media: ${media.id}`
+          );
+          continue;
+        }
+
+        const startedAt = Date.now();
+        try {
+          await this.mediaService.requestReprocess(media.id, options.steps);
+          progress.published++;
+        } catch (error) {
+          progress.failed++;
+          this.logger.error(
+            `Failed to queue reprocessing of media: ${media.id}`,
+            (error as any).stack
+          );
+        }
+        await sleep(Math.max(0, interval - (Date.now() - startedAt)));
+      }
+
+      afterId = batch[batch.length - 1].id;
+      onProgress({ ...progress });
+    }
+
+    return progress;
+  }
+
+  private buildQuery(criteria: BackfillCriteria) {
+    const query = this.mediaRepository
+      .createQueryBuilder('media')
+      .where('media.status IN (:...statuses)', {
+        statuses: [MediaStatus.READY, MediaStatus.FAILED],
+      })
+      .andWhere('media.duplicateOfId IS NULL');
+
+    if (criteria.type) {
+      query.andWhere('media.type = :type', { type: criteria.type });
+    }
+    if (criteria.createdFrom) {
+      query.andWhere('media.createdAt >= :createdFrom', {
+        createdFrom: criteria.createdFrom,
+      });
+    }
+    if (criteria.createdTo) {
+      query.andWhere('media.createdAt < :createdTo', {
+        createdTo: criteria.createdTo,
+      });
+    }
+    if (criteria.missing) {
+      const derivatives = this.mediaRepository.manager
+        .createQueryBuilder(MediaDerivative, 'derivative')
+        .select('1')
+        .where('derivative.mediaId = media.id')
+        .andWhere('derivative.kind = :missing');
+      query.andWhere(`NOT EXISTS (${derivatives.getQuery()})`, {
+        missing: criteria.missing,
+      });
+    }
+
+    return query;
+  }
+}
@@ -0,0 +1,72 @@
+// src/media/media-constraints.ts
+
+import { MediaType } from '../common/enums/media-type.enum';
+
+const MB = 1024 * 1024;
+
+const IMAGE_MIMETYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/heic',
+  'image/heif',
+  'image/avif',
+  'image/webp',
+];
+
+/**
+ * Mimetypes accepted for each media type.
+ */
+export const ALLOWED_MIMETYPES: Record<MediaType, string[]> = {
+  [MediaType.PROFILE_PICTURE]: IMAGE_MIMETYPES,
+  [MediaType.ALBUM_COVER_IMAGE]: IMAGE_MIMETYPES,
+  [MediaType.IMAGE]: IMAGE_MIMETYPES,
+  [MediaType.VIDEO]: ['video/mp4', 'video/mpeg', 'video/quicktime'],
+};
+
+/**
+ * Image formats that are re-encoded into a master before moderation and
+ * derivative generation. The master applies the EXIF orientation, drops all
+ * metadata (GPS, serial numbers, ...) and is JPEG, or PNG for PNGs and images
+ * with transparency. GIFs carry no EXIF and are kept as uploaded.
+ */
+export const MASTERED_IMAGE_MIMETYPES = IMAGE_MIMETYPES.filter(
+  mimetype => mimetype !== 'image/gif'
+);
+
+export interface MediaLimits {
+  maxBytes: number;
+  maxDimension: number; // Longest edge, in pixels
+  maxDurationSeconds?: number;
+}
+
+/**
+ * Size, dimension and duration limits enforced on uploads of each media type.
+ */
+export const MEDIA_LIMITS: Record<MediaType, MediaLimits> = {
+  [MediaType.PROFILE_PICTURE]: {
+    maxBytes: 10 * MB,
+    maxDimension: 8000,
+  },
+  [MediaType.ALBUM_COVER_IMAGE]: {
+    maxBytes: 20 * MB,
+    maxDimension: 12000,
+  },
+  [MediaType.IMAGE]: {
+    maxBytes: parseInt(process.env.MEDIA_MAX_IMAGE_BYTES!, 10) || 25 * MB,
+    maxDimension: 12000,
+  },
+  [MediaType.VIDEO]: {
+    maxBytes: parseInt(process.env.MEDIA_MAX_VIDEO_BYTES!, 10) || 2048 * MB,
+    maxDimension: 4096,
+    maxDurationSeconds:
+      parseInt(process.env.MEDIA_MAX_VIDEO_DURATION_SECONDS!, 10) || 600,
+  },
+};
+
+/**
+ * Largest upload accepted for any media type.
+ */
+export const MAX_UPLOAD_BYTES = Math.max(
+  ...Object.values(MEDIA_LIMITS).map(limits => limits.maxBytes)
+);
@@ -0,0 +1,92 @@
+// src/media/media-derivative.entity.ts
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  Unique,
+} from 'typeorm';
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUrl,
+  IsUUID,
+  Min,
+} from 'class-validator';
+import { DerivativeKind } from '../common/enums/derivative-kind.enum';
+import { Media } from './media.entity';
+
+/**
+ * A stored file generated from a media item's original, such as a thumbnail
+ * or a responsive size. Keyed by storage key, so regenerating a derivative
+ * replaces its entry.
+ */
+@Entity('media_derivative')
+@Unique(['key'])
+export class MediaDerivative {
+  @PrimaryGeneratedColumn('uuid')
+  @IsUUID()
+  id!: string;
+
+  @Column('uuid')
+  @Index()
+  @IsUUID()
+  mediaId!: string;
+
+  @ManyToOne(() => Media, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'mediaId' })
+  media?: Media;
+
+  @Column({
+    type: 'enum',
+    enum: DerivativeKind,
+  })
+  @IsEnum(DerivativeKind)
+  kind!: DerivativeKind;
+
+  @Column()
+  @IsString()
+  key!: string; // Storage object key
+
+  @Column()
+  @IsUrl()
+  url!: string;
+
+  @Column()
+  @IsString()
+  format!: string; // e.g. jpeg, webp
+
+  @Column({ type: 'int', nullable: true })
+  @IsOptional()
+  @IsInt()
+  width?: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  @IsOptional()
+  @IsInt()
+  height?: number | null;
+
+  @Column({
+    type: 'bigint',
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseInt(value, 10),
+    },
+  })
+  @IsInt()
+  @Min(0)
+  bytes!: number;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
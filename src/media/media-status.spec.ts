@@ -0,0 +1,53 @@
+// src/media/media-status.spec.ts
+
+import { MediaStatus } from '../common/enums/media-status.enum';
+import { canTransitionStatus, MEDIA_STATUS_TRANSITIONS } from './media-status';
+
+describe('canTransitionStatus', () => {
+  it.each([
+    [MediaStatus.PENDING_UPLOAD, MediaStatus.UPLOADED],
+    [MediaStatus.UPLOADED, MediaStatus.PROCESSING],
+    [MediaStatus.PROCESSING, MediaStatus.TRANSCODING],
+    [MediaStatus.PROCESSING, MediaStatus.READY],
+    [MediaStatus.TRANSCODING, MediaStatus.READY],
+    [MediaStatus.READY, MediaStatus.PROCESSING],
+    [MediaStatus.FAILED, MediaStatus.UPLOADED],
+    [MediaStatus.FAILED, MediaStatus.PROCESSING],
+  ])('allows %s → %s', (from, to) => {
+    expect(canTransitionStatus(from, to)).toBe(true);
+  });
+
+  it.each([
+    [MediaStatus.PENDING_UPLOAD, MediaStatus.PROCESSING],
+    [MediaStatus.PENDING_UPLOAD, MediaStatus.READY],
+    [MediaStatus.UPLOADED, MediaStatus.READY],
+    [MediaStatus.TRANSCODING, MediaStatus.PROCESSING],
+    [MediaStatus.READY, MediaStatus.FAILED],
+    [MediaStatus.READY, MediaStatus.PENDING_UPLOAD],
+    [MediaStatus.FAILED, MediaStatus.READY],
+  ])('rejects %s → %s', (from, to) => {
+    expect(canTransitionStatus(from, to)).toBe(false);
+  });
+
+  it('lets every non-terminal status fail', () => {
+    const nonTerminal = Object.values(MediaStatus).filter(
+      status => status !== MediaStatus.READY && status !== MediaStatus.FAILED
+    );
+
+    for (const status of nonTerminal) {
+      expect(canTransitionStatus(status, MediaStatus.FAILED)).toBe(true);
+    }
+  });
+
+  it('always allows staying in the same status', () => {
+    for (const status of Object.values(MediaStatus)) {
+      expect(canTransitionStatus(status, status)).toBe(true);
+    }
+  });
+
+  it('lists transitions for every status', () => {
+    expect(Object.keys(MEDIA_STATUS_TRANSITIONS).sort()).toEqual(
+      Object.values(MediaStatus).sort()
+    );
+  });
+});
@@ -0,0 +1,35 @@
+// src/media/media-status.ts
+
+import { MediaStatus } from '../common/enums/media-status.enum';
+
+/**
+ * Allowed transitions of the media processing lifecycle.
+ *
+ * pending_upload → uploaded → processing → (transcoding →) ready
+ *
+ * Any non-terminal state may move to `failed`; failed and ready media can be
+ * picked up for processing again (retries and reprocessing).
+ */
+export const MEDIA_STATUS_TRANSITIONS: Record<MediaStatus, MediaStatus[]> = {
+  [MediaStatus.PENDING_UPLOAD]: [MediaStatus.UPLOADED, MediaStatus.FAILED],
+  [MediaStatus.UPLOADED]: [MediaStatus.PROCESSING, MediaStatus.FAILED],
+  [MediaStatus.PROCESSING]: [
+    MediaStatus.TRANSCODING,
+    MediaStatus.READY,
+    MediaStatus.FAILED,
+  ],
+  [MediaStatus.TRANSCODING]: [MediaStatus.READY, MediaStatus.FAILED],
+  [MediaStatus.READY]: [MediaStatus.PROCESSING],
+  [MediaStatus.FAILED]: [MediaStatus.UPLOADED, MediaStatus.PROCESSING],
+};
+
+/**
+ * Returns whether media may move from one status to another. Staying in the
+ * same status is always allowed so redelivered events are idempotent.
+ */
+export function canTransitionStatus(
+  from: MediaStatus,
+  to: MediaStatus
+): boolean {
+  return from === to || MEDIA_STATUS_TRANSITIONS[from].includes(to);
+}
@@ -7,13 +7,19 @@ import {
   Body,
   Req,
   Get,
+  Patch,
   Delete,
   BadRequestException,
   Query,
   Param,
+  ParseEnumPipe,
+  Res,
+  Headers,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { MediaService } from './media.service';
 import { PresignedUrlDto } from './dto/presigned-url.dto';
+import { ImportMediaDto } from './dto/import-media.dto';
 import { CompleteUploadDto } from './dto/complete-upload.dto';
 import {
   ApiTags,
@@ -22,13 +28,27 @@ import {
   ApiResponse,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from 'src/auth/jwt-auth.guard';
+import { AdminGuard } from 'src/auth/admin.guard';
 import { MultipleUploadDto } from './dto/multiple-upload.dto';
+import { MediaStatus } from 'src/common/enums/media-status.enum';
+import { MultipartPartUrlsDto } from './dto/multipart-part-urls.dto';
+import { CompleteMultipartUploadDto } from './dto/complete-multipart-upload.dto';
+import { ALLOWED_MIMETYPES } from './media-constraints';
+import { ImageRenderer } from './image-renderer.service';
+import { RenderImageDto, RenderParamsDto } from './dto/render-image.dto';
+import { DeliverImageDto } from './dto/deliver-image.dto';
+import { ReprocessMediaDto } from './dto/reprocess-media.dto';
+import { CreateClipDto } from './dto/create-clip.dto';
+import { UpdateSettingsDto } from 'src/settings/dto/update-settings.dto';
 
 @ApiBearerAuth()
 @ApiTags('media')
 @Controller('media')
 export class MediaController {
-  constructor(private readonly mediaService: MediaService) {}
+  constructor(
+    private readonly mediaService: MediaService,
+    private readonly imageRenderer: ImageRenderer
+  ) {}
 
   /**
    * Generates a pre-signed URL for uploading media.
@@ -41,7 +61,8 @@ export class MediaController {
    *   "type": "image",
    *   "mimetype": "image/jpeg",
    *   "albumId": "optional-album-uuid",
-   *   "tags": ["tag1", "tag2"]
+   *   "tags": ["tag1", "tag2"],
+   *   "crop": { "x": 0.1, "y": 0.05, "width": 0.6, "height": 0.45 }
    * }
    * ```
    *
@@ -49,9 +70,19 @@ export class MediaController {
    * ```json
    * {
    *   "url": "https://s3.amazonaws.com/bucket/key.jpg?signature...",
-   *   "mediaId": "generated-media-uuid"
+   *   "key": "private/image/key.jpg",
+   *   "mediaId": "generated-media-uuid",
+   *   "post": {
+   *     "url": "https://bucket.s3.amazonaws.com",
+   *     "fields": { "key": "private/image/key.jpg", "Content-Type": "image/jpeg", "Policy": "...", "X-Amz-Signature": "..." }
+   *   },
+   *   "maxBytes": 26214400
    * }
    * ```
+   *
+   * `url` accepts a `PUT` of any size. Prefer `post`: submit its `fields` followed by a
+   * `file` field as `multipart/form-data`; the upload is rejected unless the content type
+   * matches and the file is at most `maxBytes`.
    */
   @UseGuards(JwtAuthGuard)
   @Post('presigned-url')
@@ -63,14 +94,7 @@ export class MediaController {
   async getPresignedUrl(@Body() body: PresignedUrlDto, @Req() req) {
     const userId = req.user.sub;
     // Validate mimetype based on type
-    const allowedMimetypes = {
-      profile_picture: ['image/jpeg', 'image/png', 'image/gif'],
-      album_cover_image: ['image/jpeg', 'image/png', 'image/gif'],
-      image: ['image/jpeg', 'image/png', 'image/gif'],
-      video: ['video/mp4', 'video/mpeg', 'video/quicktime'],
-    };
-
-    if (!allowedMimetypes[body.type].includes(body.mimetype)) {
+    if (!ALLOWED_MIMETYPES[body.type].includes(body.mimetype)) {
       throw new BadRequestException(
         'Invalid mimetype for the specified media type'
       );
@@ -81,14 +105,17 @@ export class MediaController {
       await this.mediaService.albumsService.getAlbumById(body.albumId, userId);
     }
 
-    const { url, key, mediaId } = await this.mediaService.generatePresignedUrl(
-      body.type,
-      body.mimetype,
-      userId,
-      body.albumId,
-      body.tags
-    );
-    return { url, key, mediaId };
+    const { url, key, mediaId, post, maxBytes } =
+      await this.mediaService.generatePresignedUrl(
+        body.type,
+        body.mimetype,
+        userId,
+        body.albumId,
+        body.tags,
+        req.user['custom:plan'],
+        body.crop
+      );
+    return { url, key, mediaId, post, maxBytes };
   }
 
   @UseGuards(JwtAuthGuard)
@@ -104,14 +131,8 @@ export class MediaController {
     const userId = req.user.sub;
 
     // Validate mimetype based on type
-    const allowedMimetypes = {
-      profile_picture: ['image/jpeg', 'image/png', 'image/gif'],
-      image: ['image/jpeg', 'image/png', 'image/gif'],
-      video: ['video/mp4', 'video/mpeg', 'video/quicktime'],
-    };
-
     const validateMimetype = (type: string, mimetype: string) => {
-      if (!allowedMimetypes[type].includes(mimetype)) {
+      if (!ALLOWED_MIMETYPES[type].includes(mimetype)) {
         throw new BadRequestException(
           `Invalid mimetype ${mimetype} for the specified media type ${type}`
         );
@@ -135,7 +156,9 @@ export class MediaController {
           upload.mimetype,
           userId,
           upload.albumId,
-          upload.tags
+          upload.tags,
+          req.user['custom:plan'],
+          upload.crop
         );
       })
     );
@@ -197,6 +220,272 @@ export class MediaController {
     return { message: 'Media processing initiated' };
   }
 
+  /**
+   * Imports media from a remote HTTPS URL. The file is fetched server-side
+   * and then processed like a regular upload.
+   *
+   * **Endpoint**: POST /media/import
+   *
+   * **Request Body**:
+   * ```json
+   * {
+   *   "url": "https://example.com/photo.jpg",
+   *   "type": "image",
+   *   "albumId": "optional-album-uuid",
+   *   "tags": ["optional", "tags"]
+   * }
+   * ```
+   *
+   * **Response**:
+   * ```json
+   * {
+   *   "mediaId": "generated-media-uuid",
+   *   "key": "private/image/key.jpeg"
+   * }
+   * ```
+   */
+  @UseGuards(JwtAuthGuard)
+  @Post('import')
+  @ApiOperation({ summary: 'Import media from a remote URL' })
+  @ApiResponse({
+    status: 201,
+    description: 'Media imported and processing initiated.',
+  })
+  async importMedia(@Body() body: ImportMediaDto, @Req() req) {
+    const userId = req.user.sub;
+    return this.mediaService.importFromUrl(
+      body.url,
+      body.type,
+      userId,
+      body.albumId,
+      body.tags,
+      req.user['custom:plan']
+    );
+  }
+
+  /**
+   * Starts a resumable multipart upload, for large files such as videos.
+   *
+   * **Endpoint**: POST /media/multipart/initiate
+   *
+   * **Request Body**: same as `POST /media/presigned-url`
+   *
+   * **Response**:
+   * ```json
+   * {
+   *   "mediaId": "generated-media-uuid",
+   *   "key": "private/video/key.mp4",
+   *   "uploadId": "multipart-upload-id",
+   *   "partSize": 10485760
+   * }
+   * ```
+   */
+  @UseGuards(JwtAuthGuard)
+  @Post('multipart/initiate')
+  @ApiOperation({ summary: 'Start a resumable multipart upload' })
+  @ApiResponse({
+    status: 201,
+    description: 'Multipart upload initiated successfully.',
+  })
+  async initiateMultipartUpload(@Body() body: PresignedUrlDto, @Req() req) {
+    const userId = req.user.sub;
+    if (!ALLOWED_MIMETYPES[body.type].includes(body.mimetype)) {
+      throw new BadRequestException(
+        'Invalid mimetype for the specified media type'
+      );
+    }
+
+    return this.mediaService.initiateMultipartUpload(
+      body.type,
+      body.mimetype,
+      userId,
+      body.albumId,
+      body.tags,
+      req.user['custom:plan'],
+      body.crop
+    );
+  }
+
+  /**
+   * Issues upload URLs for parts of a multipart upload. Each part except the
+   * last must be at least 5 MB. URLs can be requested again to resume.
+   *
+   * **Endpoint**: POST /media/:id/multipart/part-urls
+   *
+   * **Request Body**:
+   * ```json
+   * { "partNumbers": [1, 2, 3] }
+   * ```
+   *
+   * **Response**:
+   * ```json
+   * [{ "partNumber": 1, "url": "https://..." }]
+   * ```
+   */
+  @UseGuards(JwtAuthGuard)
+  @Post(':id/multipart/part-urls')
+  @ApiOperation({ summary: 'Get upload URLs for multipart upload parts' })
+  @ApiResponse({
+    status: 201,
+    description: 'Part upload URLs generated successfully.',
+  })
+  async getMultipartPartUrls(
+    @Param('id') id: string,
+    @Body() body: MultipartPartUrlsDto,
+    @Req() req
+  ) {
+    const userId = req.user.sub;
+    return this.mediaService.getMultipartPartUrls(id, userId, body.partNumbers);
+  }
+
+  /**
+   * Lists the parts uploaded so far, so an interrupted upload can resume.
+   *
+   * **Endpoint**: GET /media/:id/multipart/parts
+   *
+   * **Response**:
+   * ```json
+   * [{ "partNumber": 1, "etag": "\"etag\"", "size": 10485760 }]
+   * ```
+   */
+  @UseGuards(JwtAuthGuard)
+  @Get(':id/multipart/parts')
+  @ApiOperation({ summary: 'List uploaded parts of a multipart upload' })
+  @ApiResponse({ status: 200, description: 'Parts retrieved successfully.' })
+  async listMultipartParts(@Param('id') id: string, @Req() req) {
+    const userId = req.user.sub;
+    return this.mediaService.listMultipartParts(id, userId);
+  }
+
+  /**
+   * Completes a multipart upload and starts media processing.
+   *
+   * **Endpoint**: POST /media/:id/multipart/complete
+   *
+   * **Request Body** (optional; all uploaded parts are used when omitted):
+   * ```json
+   * { "parts": [{ "partNumber": 1, "etag": "\"etag\"" }] }
+   * ```
+   */
+  @UseGuards(JwtAuthGuard)
+  @Post(':id/multipart/complete')
+  @ApiOperation({ summary: 'Complete a multipart upload' })
+  @ApiResponse({
+    status: 200,
+    description: 'Media processing initiated successfully.',
+  })
+  async completeMultipartUpload(
+    @Param('id') id: string,
+    @Body() body: CompleteMultipartUploadDto,
+    @Req() req
+  ) {
+    const userId = req.user.sub;
+    await this.mediaService.completeMultipartUpload(id, userId, body.parts);
+    return { message: 'Media processing initiated' };
+  }
+
+  /**
+   * Aborts a multipart upload and discards the uploaded parts.
+   *
+   * **Endpoint**: DELETE /media/:id/multipart
+   */
+  @UseGuards(JwtAuthGuard)
+  @Delete(':id/multipart')
+  @ApiOperation({ summary: 'Abort a multipart upload' })
+  @ApiResponse({
+    status: 200,
+    description: 'Multipart upload aborted successfully.',
+  })
+  async abortMultipartUpload(@Param('id') id: string, @Req() req) {
+    const userId = req.user.sub;
+    await this.mediaService.abortMultipartUpload(id, userId);
+    return { message: 'Multipart upload aborted' };
+  }
+
+  /**
+   * Retrieves the user's storage usage against their plan's quota.
+   *
+   * **Endpoint**: GET /media/usage
+   *
+   * **Response**:
+   * ```json
+   * {
+   *   "plan": "free",
+   *   "quotaBytes": 5368709120,
+   *   "usedBytes": 1048576,
+   *   "remainingBytes": 5367660544,
+   *   "byType": {
+   *     "image": { "originalBytes": 786432, "derivativeBytes": 262144, "totalBytes": 1048576 },
+   *     ...
+   *   }
+   * }
+   * ```
+   */
+  @UseGuards(JwtAuthGuard)
+  @Get('usage')
+  @ApiOperation({ summary: 'Get storage usage and quota for the user' })
+  @ApiResponse({ status: 200, description: 'Usage retrieved successfully.' })
+  async getUsage(@Req() req) {
+    const userId = req.user.sub;
+    return this.mediaService.getUsage(userId, req.user['custom:plan']);
+  }
+
+  /**
+   * Retrieves the user's media settings.
+   *
+   * **Endpoint**: GET /media/settings
+   *
+   * **Response**:
+   * ```json
+   * {
+   *   "userId": "user-uuid",
+   *   "keepLocation": false
+   * }
+   * ```
+   */
+  @UseGuards(JwtAuthGuard)
+  @Get('settings')
+  @ApiOperation({ summary: 'Get media settings for the user' })
+  @ApiResponse({ status: 200, description: 'Settings retrieved successfully.' })
+  async getSettings(@Req() req) {
+    const userId = req.user.sub;
+    return this.mediaService.getSettings(userId);
+  }
+
+  /**
+   * Updates the user's media settings. Location is stripped from every
+   * published image; with `keepLocation` on it is kept privately so the
+   * owner's media can be searched by place. Turning it off erases the
+   * locations already kept.
+   *
+   * **Endpoint**: PATCH /media/settings
+   *
+   * **Request Body**:
+   * ```json
+   * {
+   *   "keepLocation": true
+   * }
+   * ```
+   *
+   * **Response**:
+   * ```json
+   * {
+   *   "userId": "user-uuid",
+   *   "keepLocation": true,
+   *   "createdAt": "2023-10-01T12:00:00Z",
+   *   "updatedAt": "2023-10-01T12:00:00Z"
+   * }
+   * ```
+   */
+  @UseGuards(JwtAuthGuard)
+  @Patch('settings')
+  @ApiOperation({ summary: 'Update media settings for the user' })
+  @ApiResponse({ status: 200, description: 'Settings updated successfully.' })
+  async updateSettings(@Body() body: UpdateSettingsDto, @Req() req) {
+    const userId = req.user.sub;
+    return this.mediaService.updateSettings(userId, body);
+  }
+
   /**
    * Retrieves media details by ID.
    *
@@ -208,14 +497,32 @@ export class MediaController {
    *   "media": {
    *     "id": "media-uuid",
    *     "url": "https://cloudfront-domain/key.jpg",
-   *     "key": "key.jpg",
    *     "type": "image",
    *     "uploadedBy": "user-uuid",
    *     "album": { ... },
    *     "tags": ["tag1", "tag2"],
    *     "thumbnailUrl": "https://cloudfront-domain/key_thumbnail.jpg",
    *     "metadata": { ... },
+   *     "variants": [
+   *       {
+   *         "id": "derivative-uuid",
+   *         "kind": "responsive",
+   *         "key": "key_640px.webp",
+   *         "url": "https://cloudfront-domain/key_640px.webp",
+   *         "format": "webp",
+   *         "width": 640,
+   *         "height": 480,
+   *         "bytes": 48213
+   *       }
+   *     ],
    *     "isFlagged": false,
+   *     "mimetype": "image/heic",
+   *     "status": "ready",
+   *     "failureReason": null,
+   *     "processingSteps": {
+   *       "moderation": { "status": "succeeded", "startedAt": "timestamp", "durationMs": 850, "attempts": 1 },
+   *       "thumbnail": { "status": "failed", "startedAt": "timestamp", "durationMs": 40, "attempts": 1, "error": "..." }
+   *     },
    *     "createdAt": "timestamp"
    *   }
    * }
@@ -227,7 +534,7 @@ export class MediaController {
   @ApiResponse({ status: 200, description: 'Media retrieved successfully.' })
   async getMedia(@Param('id') id: string, @Req() req) {
     const userId = req.user.id;
-    const media = await this.mediaService.getMedia(id);
+    const media = await this.mediaService.getMediaWithVariants(id);
 
     // Check if media is in a private album
     if (
@@ -241,6 +548,256 @@ export class MediaController {
     return { media };
   }
 
+  /**
+   * Issues a short-lived download URL for the original upload, e.g. the HEIC
+   * file as it came off the phone rather than its web-safe master.
+   *
+   * **Endpoint**: GET /media/:id/original
+   *
+   * **Response**:
+   * ```json
+   * {
+   *   "url": "https://...",
+   *   "mimetype": "image/heic"
+   * }
+   * ```
+   */
+  @UseGuards(JwtAuthGuard)
+  @Get(':id/original')
+  @ApiOperation({ summary: 'Get a download URL for the original upload' })
+  @ApiResponse({
+    status: 200,
+    description: 'Download URL issued successfully.',
+  })
+  async getOriginal(@Param('id') id: string, @Req() req) {
+    const userId = req.user.sub;
+    return this.mediaService.getOriginalDownload(id, userId);
+  }
+
+  /**
+   * Issues a signed render URL for an image at a custom size and format. Only
+   * the owner of the media can sign render URLs.
+   *
+   * **Endpoint**: POST /media/:id/render-url
+   *
+   * **Request Body**:
+   * ```json
+   * { "w": 400, "h": 300, "fit": "cover", "format": "webp", "q": 80, "dpr": 2 }
+   * ```
+   *
+   * **Response**:
+   * ```json
+   * { "url": "https://media-service/media/media-uuid/render?w=400&h=300&fit=cover&format=webp&q=80&dpr=2&sig=..." }
+   * ```
+   */
+  @UseGuards(JwtAuthGuard)
+  @Post(':id/render-url')
+  @ApiOperation({ summary: 'Get a signed render URL for an image' })
+  @ApiResponse({ status: 201, description: 'Render URL issued successfully.' })
+  async getRenderUrl(
+    @Param('id') id: string,
+    @Body() body: RenderParamsDto,
+    @Req() req
+  ) {
+    const userId = req.user.sub;
+    const media = await this.mediaService.getMedia(id);
+
+    // Renditions are charged to the owner, so only they may sign new ones
+    if (media.uploadedBy !== userId) {
+      throw new BadRequestException('Unauthorized');
+    }
+
+    return { url: this.imageRenderer.buildUrl(id, body) };
+  }
+
+  /**
+   * Renders an image at a custom size and format and redirects to the stored
+   * rendition. Parameters must carry a signature issued by
+   * `POST /media/:id/render-url`.
+   *
+   * **Endpoint**: GET /media/:id/render?w=400&h=300&fit=cover&format=webp&q=80&dpr=2&sig=...
+   *
+   * **Response**: `302` redirect to the rendition
+   */
+  @Get(':id/render')
+  @ApiOperation({ summary: 'Render an image at a custom size and format' })
+  @ApiResponse({ status: 302, description: 'Redirect to the rendition.' })
+  async render(
+    @Param('id') id: string,
+    @Query() query: RenderImageDto,
+    @Res() res: Response
+  ) {
+    const { sig, ...params } = query;
+    this.imageRenderer.verify(id, params, sig);
+
+    const url = await this.imageRenderer.render(id, params);
+    res.setHeader('Cache-Control', 'public, max-age=86400');
+    res.redirect(302, url);
+  }
+
+  /**
+   * Redirects to the best image variant for the client: AVIF or WebP when the
+   * `Accept` header allows it, JPEG otherwise. Responses vary on `Accept`, so
+   * caches keep one redirect per format. Media in private albums is only
+   * delivered to the album's owner, and redirects to media that is not visible
+   * to everyone are only cached privately.
+   *
+   * **Endpoint**: GET /media/:id/image?w=640
+   *
+   * **Query Parameters**:
+   * - `w`: Optional display width in device pixels; selects a responsive size
+   *
+   * **Response**: `302` redirect to the variant
+   */
+  @UseGuards(JwtAuthGuard)
+  @Get(':id/image')
+  @ApiOperation({ summary: 'Deliver an image in the best accepted format' })
+  @ApiResponse({ status: 302, description: 'Redirect to the variant.' })
+  async deliverImage(
+    @Param('id') id: string,
+    @Query() query: DeliverImageDto,
+    @Headers('accept') accept: string | undefined,
+    @Req() req,
+    @Res() res: Response
+  ) {
+    const userId = req.user.sub;
+    const { url, restricted } = await this.mediaService.getDeliveryUrl(
+      id,
+      userId,
+      accept,
+      query.w
+    );
+    res.setHeader('Vary', 'Accept');
+    res.setHeader(
+      'Cache-Control',
+      `${restricted ? 'private' : 'public'}, max-age=86400`
+    );
+    res.redirect(302, url);
+  }
+
+  /**
+   * Retries a failed processing step. If the failure stopped processing, the
+   * pipeline resumes from that step.
+   *
+   * **Endpoint**: POST /media/:id/steps/:step/retry
+   *
+   * **Response**:
+   * ```json
+   * {
+   *   "media": {
+   *     "id": "media-uuid",
+   *     "status": "ready",
+   *     "processingSteps": {
+   *       "thumbnail": {
+   *         "status": "succeeded",
+   *         "startedAt": "timestamp",
+   *         "durationMs": 120,
+   *         "attempts": 2
+   *       }
+   *     }
+   *   }
+   * }
+   * ```
+   */
+  @UseGuards(JwtAuthGuard)
+  @Post(':id/steps/:step/retry')
+  @ApiOperation({ summary: 'Retry a failed processing step' })
+  @ApiResponse({ status: 201, description: 'Processing step retried.' })
+  async retryProcessingStep(
+    @Param('id') id: string,
+    @Param('step') step: string,
+    @Req() req
+  ) {
+    const userId = req.user.sub;
+    const media = await this.mediaService.retryProcessingStep(id, step, userId);
+    return { media };
+  }
+
+  /**
+   * Queues media to be processed again, for example after derivative sizes
+   * change or a processing bug is fixed. Administrators only.
+   *
+   * **Endpoint**: POST /media/:id/reprocess
+   *
+   * **Request Body**:
+   * ```json
+   * {
+   *   "steps": ["thumbnail", "responsive-images"]
+   * }
+   * ```
+   *
+   * **Response**:
+   * ```json
+   * {
+   *   "message": "Reprocessing requested"
+   * }
+   * ```
+   */
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @Post(':id/reprocess')
+  @ApiOperation({ summary: 'Reprocess media (admin)' })
+  @ApiResponse({ status: 201, description: 'Reprocessing requested.' })
+  async reprocessMedia(
+    @Param('id') id: string,
+    @Body() body: ReprocessMediaDto
+  ) {
+    await this.mediaService.requestReprocess(id, body.steps);
+    return { message: 'Reprocessing requested' };
+  }
+
+  /**
+   * Cuts a clip out of one of the user's videos, e.g. to trim it or to make
+   * a highlight. The clip becomes a new video that is processed and moderated
+   * like an upload.
+   *
+   * **Endpoint**: POST /media/:id/clips
+   *
+   * **Request Body**:
+   * ```json
+   * {
+   *   "start": 12.5,
+   *   "end": 27.5,
+   *   "crop": { "x": 0.2, "y": 0, "width": 0.6, "height": 1 },
+   *   "mute": false,
+   *   "albumId": "optional-album-uuid",
+   *   "tags": ["highlight"]
+   * }
+   * ```
+   *
+   * **Response**:
+   * ```json
+   * {
+   *   "mediaId": "generated-media-uuid",
+   *   "key": "private/video/key.mp4"
+   * }
+   * ```
+   *
+   * `start` and `end` are in seconds; `crop` (fractions of the frame), `mute`,
+   * `albumId` and `tags` are optional.
+   */
+  @UseGuards(JwtAuthGuard)
+  @Post(':id/clips')
+  @ApiOperation({ summary: 'Create a clip of a video' })
+  @ApiResponse({
+    status: 201,
+    description: 'Clip requested; it is cut and processed in the background.',
+  })
+  async createClip(
+    @Param('id') id: string,
+    @Body() body: CreateClipDto,
+    @Req() req
+  ) {
+    const userId = req.user.sub;
+    return this.mediaService.createClip(
+      id,
+      userId,
+      { start: body.start, end: body.end, crop: body.crop, mute: body.mute },
+      body.albumId,
+      body.tags,
+      req.user['custom:plan']
+    );
+  }
+
   /**
    * Deletes media by ID.
    *
@@ -264,7 +821,7 @@ export class MediaController {
   }
 
   /**
-   * Lists media with pagination and optional album filtering.
+   * Lists media with pagination and optional album and status filtering.
    *
    * **Endpoint**: GET /media
    *
@@ -272,11 +829,22 @@ export class MediaController {
    * - `page`: Page number (default: 1)
    * - `limit`: Items per page (default: 20)
    * - `albumId`: Optional album ID to filter media
+   * - `status`: Optional processing status to filter media (e.g. `ready`, `failed`)
    *
    * **Response**:
    * ```json
    * {
-   *   "data": [ ... ],
+   *   "data": [
+   *     {
+   *       "id": "media-uuid",
+   *       "url": "https://cloudfront-domain/key.jpg",
+   *       "blurhash": "LEHV6nWB2yk8pyo0adR*.7kCMdnj",
+   *       "dominantColor": "#3a5f7d",
+   *       "palette": ["#3a5f7d", "#d9c8a4", "#1b1f22"],
+   *       "variants": [ ... ],
+   *       ...
+   *     }
+   *   ],
    *   "total": 100
    * }
    * ```
@@ -284,7 +852,8 @@ export class MediaController {
   @UseGuards(JwtAuthGuard)
   @Get()
   @ApiOperation({
-    summary: 'List media with pagination and optional album filtering',
+    summary:
+      'List media with pagination and optional album and status filtering',
   })
   @ApiResponse({
     status: 200,
@@ -294,14 +863,17 @@ export class MediaController {
     @Req() req,
     @Query('page') page: number = 1,
     @Query('limit') limit: number = 20,
-    @Query('albumId') albumId?: string
+    @Query('albumId') albumId?: string,
+    @Query('status', new ParseEnumPipe(MediaStatus, { optional: true }))
+    status?: MediaStatus
   ) {
     const userId = req.user.id;
     const mediaList = await this.mediaService.getMediaList(
       userId,
       page,
       limit,
-      albumId
+      albumId,
+      status
     );
     return mediaList;
   }
@@ -18,13 +18,24 @@ import {
   IsArray,
   ArrayNotEmpty,
   IsBoolean,
+  IsHexColor,
+  IsInt,
+  Min,
+  Max,
 } from 'class-validator';
 import { MediaType } from '../common/enums/media-type.enum';
-import { Transform } from 'class-transformer';
+import { MediaStatus } from '../common/enums/media-status.enum';
+import { Exclude, Transform } from 'class-transformer';
+import { ProcessingStepResult } from './pipeline/processing-step';
+import { MediaDerivative } from './media-derivative.entity';
+import { CropRect } from './smart-cropper.service';
+import { ClipSpec } from './video-clipper.service';
+import { TranscodingRendition } from '../aws/transcoding/transcoding-profile';
 
 @Entity()
 @Index('IDX_MEDIA_TAGS', { synchronize: false }) // Consider using a separate index strategy for array columns
 @Unique(['key']) // Ensure the S3 object key is unique
+@Index('IDX_MEDIA_UPLOADER_HASH', ['uploadedBy', 'contentHash']) // Duplicate lookups
 export class Media {
   @PrimaryGeneratedColumn('uuid')
   @IsUUID()
@@ -37,7 +48,8 @@ export class Media {
 
   @Column()
   @Index()
-  key!: string; // S3 object key
+  @Exclude({ toPlainOnly: true })
+  key!: string; // Storage key of the original upload; never returned by the API
 
   @Column({
     type: 'enum',
@@ -46,6 +58,10 @@ export class Media {
   @IsEnum(MediaType)
   type!: MediaType;
 
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  mimetype?: string | null; // Mimetype declared by the client at upload
+
   @Column()
   @Index()
   @IsUUID()
@@ -70,14 +86,123 @@ export class Media {
   @IsUrl()
   thumbnailUrl?: string; // URL of the generated thumbnail
 
+  @Column({ type: 'json', nullable: true })
+  @IsOptional()
+  crop?: CropRect | null; // Thumbnail crop chosen by the client, if any
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  @IsOptional()
+  blurhash?: string | null; // BlurHash placeholder shown while the image loads
+
+  @Column({ type: 'varchar', length: 7, nullable: true })
+  @IsOptional()
+  @IsHexColor()
+  dominantColor?: string | null; // e.g. #3a5f7d
+
+  @Column('text', { array: true, nullable: true })
+  @IsOptional()
+  @IsArray()
+  @IsHexColor({ each: true })
+  palette?: string[] | null; // Most common colours, most common first
+
   @Column({ type: 'json', nullable: true })
   @IsOptional()
   metadata?: Record<string, unknown>; // Extracted metadata with specific typing
 
+  @Column({ type: 'double precision', nullable: true, select: false })
+  @IsOptional()
+  latitude?: number | null; // Private: kept only when the owner opts in, never returned
+
+  @Column({ type: 'double precision', nullable: true, select: false })
+  @IsOptional()
+  longitude?: number | null; // Private: kept only when the owner opts in, never returned
+
+  variants?: MediaDerivative[]; // Filled from the derivative registry for API responses; not a column
+
+  @Column({ type: 'json', nullable: true })
+  @IsOptional()
+  processingSteps?: Record<string, ProcessingStepResult> | null; // Latest outcome of each processing step
+
   @Column({ default: false })
   @IsBoolean()
   isFlagged!: boolean; // Indicates if content is flagged
 
+  @Column({
+    type: 'enum',
+    enum: MediaStatus,
+    default: MediaStatus.PENDING_UPLOAD,
+  })
+  @Index()
+  @IsEnum(MediaStatus)
+  status!: MediaStatus; // Processing lifecycle state
+
+  @Column({ type: 'text', nullable: true })
+  @IsOptional()
+  failureReason?: string | null; // Why processing failed, if it did
+
+  @Column({ type: 'smallint', nullable: true })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  transcodingProgress?: number | null; // Percent complete of the video's transcoding job
+
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  transcodingProfile?: string | null; // Name of the transcoding profile chosen for the video
+
+  @Column({ type: 'json', nullable: true })
+  @IsOptional()
+  renditions?: TranscodingRendition[] | null; // Renditions the video was transcoded into, highest first
+
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  playlistKey?: string | null; // HLS master playlist of the transcoded video
+
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @IsUrl()
+  dashUrl?: string | null; // DASH manifest, if the transcoding profile writes one
+
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @Exclude({ toPlainOnly: true })
+  masterKey?: string | null; // Oriented, metadata-stripped master served instead of the original
+
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @Exclude({ toPlainOnly: true })
+  watermarkKey?: string | null; // Watermarked master served instead of the clean one, if a watermark applies
+
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  multipartUploadId?: string | null; // Open multipart upload, if any
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  @IsOptional()
+  contentHash?: string | null; // SHA-256 of the original upload
+
+  @Column({ type: 'uuid', nullable: true })
+  @Index()
+  @IsOptional()
+  @IsUUID()
+  duplicateOfId?: string | null; // Media whose stored objects this item reuses
+
+  @Column({ type: 'varchar', nullable: true })
+  @IsOptional()
+  @Exclude({ toPlainOnly: true })
+  uploadKey?: string | null; // Own upload key, naming the derivatives, when `key` is shared with an identical upload
+
+  @Column({ type: 'uuid', nullable: true })
+  @Index()
+  @IsOptional()
+  @IsUUID()
+  clipOfId?: string | null; // Video this clip was cut from
+
+  @Column({ type: 'json', nullable: true })
+  @IsOptional()
+  clip?: ClipSpec | null; // Part of the source video the clip was cut from
+
   @CreateDateColumn()
   createdAt!: Date;
 
@@ -5,22 +5,65 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { MediaService } from './media.service';
 import { MediaController } from './media.controller';
 import { Media } from './media.entity';
+import { MediaDerivative } from './media-derivative.entity';
 import { AlbumsModule } from '../albums/albums.module';
 import { HttpModule } from '@nestjs/axios';
 import { AwsModule } from 'src/aws/aws.module';
 import { LoggerService } from 'src/logger/logger.service';
 import { ConfigService } from '@nestjs/config';
 import { VideoTranscoder } from 'src/aws/video-transcoder.service';
+import { UploadValidator } from './upload-validator.service';
+import { RemoteMediaFetcher } from './remote-media-fetcher.service';
+import { UploadReaper } from './upload-reaper.service';
+import { MediaBackfill } from './media-backfill.service';
+import { DerivativeStore } from './derivative-store.service';
+import { ImageRenderer } from './image-renderer.service';
+import { SmartCropper } from './smart-cropper.service';
+import { MediaPipeline } from './pipeline/media-pipeline.service';
+import { PROCESSING_STEPS } from './pipeline/pipelines';
+import { ProcessingStep } from './pipeline/processing-step';
+import { UsageModule } from 'src/usage/usage.module';
+import { SettingsModule } from 'src/settings/settings.module';
+import { WatermarksModule } from 'src/watermarks/watermarks.module';
+import { CaptionsModule } from 'src/captions/captions.module';
+import { Watermarker } from './watermarker.service';
+import { VideoPreviewer } from './video-previewer.service';
+import { VideoClipper } from './video-clipper.service';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Media]),
+    TypeOrmModule.forFeature([Media, MediaDerivative]),
     AwsModule,
     forwardRef(() => AlbumsModule), // Import AlbumsModule to access AlbumsService
     HttpModule,
+    UsageModule,
+    SettingsModule,
+    WatermarksModule,
+    CaptionsModule,
+  ],
+  providers: [
+    MediaService,
+    LoggerService,
+    VideoTranscoder,
+    UploadValidator,
+    RemoteMediaFetcher,
+    UploadReaper,
+    MediaBackfill,
+    DerivativeStore,
+    MediaPipeline,
+    ImageRenderer,
+    SmartCropper,
+    Watermarker,
+    VideoPreviewer,
+    VideoClipper,
+    ...PROCESSING_STEPS,
+    {
+      provide: 'PROCESSING_STEPS',
+      useFactory: (...steps: ProcessingStep[]) => steps,
+      inject: PROCESSING_STEPS,
+    },
   ],
-  providers: [MediaService, LoggerService, VideoTranscoder],
   controllers: [MediaController],
-  exports: [MediaService],
+  exports: [MediaService, VideoTranscoder],
 })
 export class MediaModule {}
@@ -1,84 +1,188 @@
 // src/media/media.service.ts
 
-import * as exifParser from 'exif-parser';
+import { createReadStream, createWriteStream } from 'fs';
 import * as fs from 'fs/promises';
-import * as ffmpeg from 'fluent-ffmpeg';
+import * as os from 'os';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
 import * as AWS from 'aws-sdk';
-import { Injectable, BadRequestException, Inject } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, EntityManager, Connection } from 'typeorm';
+import { Repository, EntityManager, Connection, In, Not } from 'typeorm';
 import { Media } from './media.entity';
+import { MediaDerivative } from './media-derivative.entity';
+import { CaptionTrack } from 'src/captions/caption-track.entity';
+import { DerivativeKind } from '../common/enums/derivative-kind.enum';
+import { negotiateFormats, selectVariant } from './image-formats';
+import { CropRect } from './smart-cropper.service';
 import { v4 as uuidv4 } from 'uuid';
-import sharp from 'sharp';
+import { createHash } from 'crypto';
 import { AlbumsService } from '../albums/albums.service';
 import { CompleteUploadDto } from './dto/complete-upload.dto';
 import { MediaType } from '../common/enums/media-type.enum';
-import { ObjectDetector } from 'src/aws/object-detector.service';
-import { ContentModerator } from 'src/aws/content-moderator.service';
+import { Visibility } from '../common/enums/visibility.enum';
 import { LoggerService } from 'src/logger/logger.service';
-import { VideoTranscoder } from 'src/aws/video-transcoder.service';
-
-const ffmpegPath = process.env.FFMPEG_PATH || '/opt/homebrew/bin/ffmpeg';
-const ffprobePath = ffmpegPath.replace('ffmpeg', 'ffprobe');
-
-ffmpeg.setFfmpegPath(ffmpegPath);
-ffmpeg.setFfprobePath(ffprobePath);
+import {
+  isPrivateKey,
+  PresignedPost,
+  StorageProvider,
+  toPrivateKey,
+  UploadedPart,
+} from 'src/aws/storage/storage.provider';
+import { MediaStatus } from '../common/enums/media-status.enum';
+import { canTransitionStatus } from './media-status';
+import {
+  UploadRejectedError,
+  UploadValidator,
+} from './upload-validator.service';
+import {
+  ALLOWED_MIMETYPES,
+  MASTERED_IMAGE_MIMETYPES,
+  MEDIA_LIMITS,
+} from './media-constraints';
+import { RemoteMediaFetcher } from './remote-media-fetcher.service';
+import { ClipSpec, VideoClipper } from './video-clipper.service';
+import { UsageBreakdown, UsageService } from 'src/usage/usage.service';
+import { SettingsService } from 'src/settings/settings.service';
+import { WatermarksService } from 'src/watermarks/watermarks.service';
+import { UserSettings } from 'src/settings/user-settings.entity';
+import { UpdateSettingsDto } from 'src/settings/dto/update-settings.dto';
+import { UsageKind } from '../common/enums/usage-kind.enum';
+import { ProcessingStepStatus } from '../common/enums/processing-step-status.enum';
+import { MediaPipeline } from './pipeline/media-pipeline.service';
+import { ffmpeg } from '../common/ffmpeg';
+
+const MULTIPART_PART_SIZE = 10 * 1024 * 1024; // Recommended part size (10 MB)
+const MULTIPART_PART_URL_EXPIRY = 3600; // 1 hour
+const IMPORT_MAX_BYTES =
+  parseInt(process.env.MEDIA_IMPORT_MAX_BYTES!, 10) || 100 * 1024 * 1024; // 100 MB
+// Steps whose result a duplicate shares with its original
+const MODERATION_STEPS = ['moderation', 'video-moderation'];
+// Steps that apply the uploader's watermark profile to their outputs
+const WATERMARKING_STEPS = ['watermark', 'video-previews'];
+
+/**
+ * Whether two thumbnail crops select the same part of the image.
+ */
+function sameCrop(a?: CropRect | null, b?: CropRect | null): boolean {
+  if (!a || !b) {
+    return !a && !b;
+  }
+  return (
+    a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height
+  );
+}
 
 @Injectable()
 export class MediaService {
-  private bucketName: string;
-  private cloudFrontDomain: string =
-    process.env.AWS_CLOUDFRONT_URL || 'default-cloudfront-domain';
-
   constructor(
     @InjectRepository(Media)
     private mediaRepository: Repository<Media>,
+    @InjectRepository(MediaDerivative)
+    private derivativeRepository: Repository<MediaDerivative>,
     public albumsService: AlbumsService,
     private connection: Connection,
     private readonly logger: LoggerService,
-    private objectDetector: ObjectDetector,
-    private contentModerator: ContentModerator,
-    private readonly videoTranscoder: VideoTranscoder,
-    @Inject('S3') private readonly s3: AWS.S3,
-    @Inject('SNS') private readonly sns: AWS.SNS,
-    @Inject('BUCKET_NAME') bucketName: string,
-    @Inject('DYNAMODB') private readonly dynamoDB: AWS.DynamoDB.DocumentClient
-  ) {
-    this.bucketName = bucketName;
-  }
+    private readonly uploadValidator: UploadValidator,
+    private readonly usageService: UsageService,
+    private readonly settingsService: SettingsService,
+    private readonly remoteMediaFetcher: RemoteMediaFetcher,
+    private readonly videoClipper: VideoClipper,
+    private readonly watermarksService: WatermarksService,
+    @Inject(forwardRef(() => MediaPipeline))
+    private readonly pipeline: MediaPipeline,
+    @Inject('STORAGE') private readonly storage: StorageProvider,
+    @Inject('SNS') private readonly sns: AWS.SNS
+  ) {}
 
   /**
-   * Generates a pre-signed URL for uploading media to S3 and pre-creates a media entry in the database.
+   * Generates a pre-signed URL for uploading media to storage and pre-creates a media entry in the database.
+   * Also returns a presigned POST form that enforces the content type and size limit, which a `PUT` URL cannot.
+   * The size limit is the smaller of the media type's limit and the user's remaining quota.
    */
   async generatePresignedUrl(
     type: MediaType,
     mimetype: string,
     userId: string,
     albumId?: string,
-    tags?: string[]
-  ): Promise<{ url: string; key: string; mediaId: string }> {
-    const fileExtension = mimetype.split('/').pop();
-    const key = `${type}/${uuidv4()}.${fileExtension}`;
-    const mediaId = uuidv4(); // Generate a unique media ID
+    tags?: string[],
+    plan?: string,
+    crop?: CropRect
+  ): Promise<{
+    url: string;
+    key: string;
+    mediaId: string;
+    post: PresignedPost;
+    maxBytes: number;
+  }> {
+    const remainingBytes = await this.usageService.assertWithinQuota(
+      userId,
+      plan
+    );
 
-    const params = {
-      Bucket: this.bucketName,
-      Key: key,
-      Expires: 300, // 5 minutes
-      ContentType: mimetype,
-    };
+    const media = await this.createPendingMedia(
+      type,
+      mimetype,
+      userId,
+      albumId,
+      tags,
+      crop
+    );
+
+    const maxBytes = Math.min(MEDIA_LIMITS[type].maxBytes, remainingBytes);
+    const url = await this.storage.getUploadUrl(media.key, mimetype, 300); // 5 minutes
+    const post = await this.storage.getUploadPost(
+      media.key,
+      mimetype,
+      maxBytes,
+      300
+    );
+    this.logger.log(`Pre-signed URL generated for mediaId: ${media.id}`);
+
+    return { url, key: media.key, mediaId: media.id, post, maxBytes };
+  }
 
-    const url = this.s3.getSignedUrl('putObject', params);
+  /**
+   * Pre-creates a media entry awaiting upload under a fresh storage key.
+   */
+  private async createPendingMedia(
+    type: MediaType,
+    mimetype: string,
+    userId: string,
+    albumId?: string,
+    tags?: string[],
+    crop?: CropRect
+  ): Promise<Media> {
+    if (crop && (crop.x + crop.width > 1 || crop.y + crop.height > 1)) {
+      throw new BadRequestException('Crop rectangle must lie within the image');
+    }
+
+    const fileExtension = mimetype.split('/').pop();
+    // Originals that are not served as uploaded keep their metadata private
+    const fileKey = `${type}/${uuidv4()}.${fileExtension}`;
+    const key =
+      type === MediaType.VIDEO || MASTERED_IMAGE_MIMETYPES.includes(mimetype)
+        ? toPrivateKey(fileKey)
+        : fileKey;
+    const mediaId = uuidv4(); // Generate a unique media ID
 
     // Pre-create the media entry with minimal info
     const media = this.mediaRepository.create({
       id: mediaId,
       key,
-      url: `https://${this.cloudFrontDomain}/${key}`,
+      url: this.storage.getPublicUrl(key),
       type: type,
+      mimetype,
       uploadedBy: userId,
       tags: tags || [],
       isFlagged: false,
+      status: MediaStatus.PENDING_UPLOAD,
+      crop: crop ?? null,
     });
 
     if (albumId) {
@@ -86,10 +190,390 @@ export class MediaService {
       media.album = album;
     }
 
+    return this.mediaRepository.save(media);
+  }
+
+  /**
+   * Starts a resumable multipart upload for a new media entry.
+   */
+  async initiateMultipartUpload(
+    type: MediaType,
+    mimetype: string,
+    userId: string,
+    albumId?: string,
+    tags?: string[],
+    plan?: string,
+    crop?: CropRect
+  ): Promise<{
+    key: string;
+    mediaId: string;
+    uploadId: string;
+    partSize: number;
+  }> {
+    await this.usageService.assertWithinQuota(userId, plan);
+
+    const media = await this.createPendingMedia(
+      type,
+      mimetype,
+      userId,
+      albumId,
+      tags,
+      crop
+    );
+
+    try {
+      const uploadId = await this.storage.createMultipartUpload(
+        media.key,
+        mimetype
+      );
+      media.multipartUploadId = uploadId;
+      await this.mediaRepository.save(media);
+
+      this.logger.log(`Multipart upload initiated for mediaId: ${media.id}`);
+      return {
+        key: media.key,
+        mediaId: media.id,
+        uploadId,
+        partSize: MULTIPART_PART_SIZE,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to initiate multipart upload for mediaId: ${media.id}`,
+        (error as any).stack
+      );
+      await this.mediaRepository.delete(media.id);
+      throw new BadRequestException('Failed to initiate multipart upload');
+    }
+  }
+
+  /**
+   * Issues upload URLs for parts of an in-progress multipart upload.
+   */
+  async getMultipartPartUrls(
+    mediaId: string,
+    userId: string,
+    partNumbers: number[]
+  ): Promise<{ partNumber: number; url: string }[]> {
+    const media = await this.getMultipartMedia(mediaId, userId);
+
+    return Promise.all(
+      partNumbers.map(async partNumber => ({
+        partNumber,
+        url: await this.storage.getUploadPartUrl(
+          media.key,
+          media.multipartUploadId!,
+          partNumber,
+          MULTIPART_PART_URL_EXPIRY
+        ),
+      }))
+    );
+  }
+
+  /**
+   * Lists the parts uploaded so far, so a client can resume an upload.
+   */
+  async listMultipartParts(
+    mediaId: string,
+    userId: string
+  ): Promise<UploadedPart[]> {
+    const media = await this.getMultipartMedia(mediaId, userId);
+
+    try {
+      return await this.storage.listParts(media.key, media.multipartUploadId!);
+    } catch (error) {
+      this.logger.error(
+        `Failed to list multipart parts for mediaId: ${mediaId}`,
+        (error as any).stack
+      );
+      throw new BadRequestException('Failed to list uploaded parts');
+    }
+  }
+
+  /**
+   * Assembles the uploaded parts and starts processing, as for a single upload.
+   * When no parts are given, every part uploaded so far is used.
+   */
+  async completeMultipartUpload(
+    mediaId: string,
+    userId: string,
+    parts?: UploadedPart[]
+  ): Promise<void> {
+    const media = await this.getMultipartMedia(mediaId, userId);
+    const uploadId = media.multipartUploadId!;
+
+    try {
+      const uploadedParts = parts?.length
+        ? parts
+        : await this.storage.listParts(media.key, uploadId);
+
+      if (!uploadedParts.length) {
+        throw new BadRequestException('No parts have been uploaded');
+      }
+
+      await this.storage.completeMultipartUpload(
+        media.key,
+        uploadId,
+        uploadedParts
+      );
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      this.logger.error(
+        `Failed to complete multipart upload for mediaId: ${mediaId}`,
+        (error as any).stack
+      );
+      throw new BadRequestException('Failed to complete multipart upload');
+    }
+
+    media.multipartUploadId = null;
     await this.mediaRepository.save(media);
-    this.logger.log(`Pre-signed URL generated for mediaId: ${mediaId}`);
+    this.logger.log(`Multipart upload completed for mediaId: ${mediaId}`);
 
-    return { url, key, mediaId };
+    await this.completeUpload({
+      mediaId,
+      key: media.key,
+      userId,
+      albumId: media.album?.id,
+      tags: media.tags,
+    });
+  }
+
+  /**
+   * Aborts a multipart upload, discarding its parts and failing the media entry.
+   */
+  async abortMultipartUpload(mediaId: string, userId: string): Promise<void> {
+    const media = await this.getMultipartMedia(mediaId, userId);
+
+    try {
+      await this.storage.abortMultipartUpload(
+        media.key,
+        media.multipartUploadId!
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to abort multipart upload for mediaId: ${mediaId}`,
+        (error as any).stack
+      );
+      throw new BadRequestException('Failed to abort multipart upload');
+    }
+
+    media.multipartUploadId = null;
+    this.transitionStatus(
+      media,
+      MediaStatus.FAILED,
+      'Multipart upload aborted'
+    );
+    await this.mediaRepository.save(media);
+    this.logger.log(`Multipart upload aborted for mediaId: ${mediaId}`);
+  }
+
+  /**
+   * Loads a media entry owned by the user that has an open multipart upload.
+   */
+  private async getMultipartMedia(
+    mediaId: string,
+    userId: string
+  ): Promise<Media> {
+    const media = await this.mediaRepository.findOne({
+      where: { id: mediaId },
+      relations: ['album'],
+    });
+
+    if (!media) {
+      this.logger.warn(`Media not found for multipart upload: ${mediaId}`);
+      throw new BadRequestException('Media not found');
+    }
+
+    if (media.uploadedBy !== userId) {
+      this.logger.warn(
+        `User ${userId} unauthorized to upload to media: ${mediaId}`
+      );
+      throw new BadRequestException('Unauthorized');
+    }
+
+    if (!media.multipartUploadId) {
+      throw new BadRequestException('No multipart upload in progress');
+    }
+
+    return media;
+  }
+
+  /**
+   * Imports media from a remote HTTPS URL. The file is fetched server-side,
+   * stored like a regular upload and queued for processing.
+   */
+  async importFromUrl(
+    url: string,
+    type: MediaType,
+    userId: string,
+    albumId?: string,
+    tags?: string[],
+    plan?: string
+  ): Promise<{ key: string; mediaId: string }> {
+    const remainingBytes = await this.usageService.assertWithinQuota(
+      userId,
+      plan
+    );
+    const maxBytes = Math.min(
+      MEDIA_LIMITS[type].maxBytes,
+      remainingBytes,
+      IMPORT_MAX_BYTES
+    );
+
+    const { body, mimetype } = await this.remoteMediaFetcher.fetch(
+      url,
+      maxBytes
+    );
+    if (!ALLOWED_MIMETYPES[type].includes(mimetype)) {
+      throw new BadRequestException(
+        `Invalid mimetype ${mimetype} for type ${type}`
+      );
+    }
+
+    const media = await this.createPendingMedia(
+      type,
+      mimetype,
+      userId,
+      albumId,
+      tags
+    );
+
+    try {
+      await this.storage.putObject(media.key, body, { contentType: mimetype });
+    } catch (error) {
+      this.logger.error(
+        `Failed to store imported media for mediaId: ${media.id}`,
+        (error as any).stack
+      );
+      await this.mediaRepository.delete(media.id);
+      throw new BadRequestException('Failed to import media');
+    }
+
+    this.logger.log(`Media imported from URL for mediaId: ${media.id}`);
+    await this.completeUpload({
+      mediaId: media.id,
+      key: media.key,
+      userId,
+      albumId,
+      tags,
+    });
+
+    return { key: media.key, mediaId: media.id };
+  }
+
+  /**
+   * Creates a clip of one of the user's videos as a new media item. The clip
+   * is cut from the original by the worker, then processed and moderated
+   * like a regular upload.
+   */
+  async createClip(
+    mediaId: string,
+    userId: string,
+    clip: ClipSpec,
+    albumId?: string,
+    tags?: string[],
+    plan?: string
+  ): Promise<{ key: string; mediaId: string }> {
+    const source = await this.getMedia(mediaId);
+
+    if (source.uploadedBy !== userId) {
+      this.logger.warn(`User ${userId} unauthorized to clip media: ${mediaId}`);
+      throw new BadRequestException('Unauthorized');
+    }
+
+    if (source.type !== MediaType.VIDEO) {
+      throw new BadRequestException('Only videos can be clipped');
+    }
+
+    if (source.status !== MediaStatus.READY || source.isFlagged) {
+      throw new BadRequestException(
+        'Only ready, unflagged videos can be clipped'
+      );
+    }
+
+    const duration = Number(source.metadata?.duration) || Infinity;
+    if (clip.end <= clip.start || clip.end > duration) {
+      throw new BadRequestException(
+        `Clip must end after it starts and within the video (${duration}s)`
+      );
+    }
+
+    const { crop } = clip;
+    if (crop && (crop.x + crop.width > 1 || crop.y + crop.height > 1)) {
+      throw new BadRequestException('Crop rectangle must lie within the video');
+    }
+
+    await this.usageService.assertWithinQuota(userId, plan);
+
+    const media = await this.createPendingMedia(
+      MediaType.VIDEO,
+      'video/mp4',
+      userId,
+      albumId,
+      tags
+    );
+    media.clipOfId = source.id;
+    media.clip = {
+      start: clip.start,
+      end: clip.end,
+      crop: crop ?? null,
+      mute: clip.mute ?? false,
+    };
+    await this.mediaRepository.save(media);
+
+    await this.publishEvent('MEDIA_PROCESSING', {
+      mediaId: media.id,
+      clip: true,
+    });
+    this.logger.log(`Clip ${media.id} of media ${source.id} requested`);
+
+    return { key: media.key, mediaId: media.id };
+  }
+
+  /**
+   * Cuts a requested clip out of its source video and hands it over to
+   * regular upload processing. Called by the worker.
+   */
+  async renderClip(mediaId: string): Promise<void> {
+    const media = await this.getMedia(mediaId);
+    if (
+      media.status !== MediaStatus.PENDING_UPLOAD ||
+      !media.clip ||
+      !media.clipOfId
+    ) {
+      this.logger.warn(`Skipping clip rendering for media ${mediaId}`);
+      return;
+    }
+
+    try {
+      const source = await this.mediaRepository.findOne({
+        where: { id: media.clipOfId },
+      });
+      if (!source) {
+        throw new Error('the source video no longer exists');
+      }
+      await this.videoClipper.clip(source.key, media.key, media.clip);
+    } catch (error) {
+      this.logger.error(
+        `Failed to cut clip for mediaId: ${mediaId}`,
+        (error as any).stack
+      );
+      await this.updateStatus(
+        mediaId,
+        MediaStatus.FAILED,
+        `Failed to cut clip: ${(error as Error).message}`
+      );
+      return;
+    }
+
+    await this.completeUpload({
+      mediaId,
+      key: media.key,
+      userId: media.uploadedBy,
+      albumId: media.album?.id,
+      tags: media.tags,
+    });
   }
 
   /**
@@ -99,6 +583,8 @@ export class MediaService {
     const { mediaId, key, userId, albumId, tags } = completeUploadDto;
     this.logger.log(`Completing upload for mediaId: ${mediaId}`);
 
+    await this.updateStatus(mediaId, MediaStatus.UPLOADED);
+
     // Publish event to SQS
     await this.publishEvent('MEDIA_PROCESSING', {
       mediaId,
@@ -156,259 +642,490 @@ export class MediaService {
   ): Promise<void> {
     this.logger.log(`Processing uploaded media: ${mediaId}`);
 
-    await this.connection.transaction(async (manager: EntityManager) => {
-      const media = await manager.findOne(Media, {
-        where: { id: mediaId },
-        relations: ['album'],
-      });
-      if (!media) {
-        this.logger.warn(`Media not found: ${mediaId}`);
-        throw new BadRequestException('Media not found');
-      }
+    await this.updateStatus(mediaId, MediaStatus.PROCESSING);
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'upload-'));
 
-      if (
-        media.type === MediaType.IMAGE ||
-        media.type === MediaType.PROFILE_PICTURE
-      ) {
-        const moderationResult = await this.contentModerator.moderateContent(
-          mediaId,
-          key
-        );
-        media.isFlagged =
-          typeof moderationResult === 'boolean' ? moderationResult : false;
-
-        if (!media.isFlagged) {
-          // Detect objects in the image and add tags
-          const detectedTags = await this.objectDetector.detectObjects(key);
-          media.tags = Array.from(
-            new Set(
-              [...(media.tags ?? []), ...detectedTags]
-                .map(tag => tag.trim().toLowerCase())
-                .filter(tag => tag.length > 0)
-            )
-          );
-
-          // Generate thumbnail
-          const thumbnailUrl = await this.generateImageThumbnail(key);
-          media.thumbnailUrl = thumbnailUrl;
-
-          // Optimize image and update the main URL
-          const optimizedUrl = await this.optimizeImage(key);
-          media.url = optimizedUrl;
-
-          // Pull raw image buffer from S3
-          const imageBuffer = (
-            await this.s3
-              .getObject({ Bucket: this.bucketName, Key: key })
-              .promise()
-          ).Body as Buffer;
-
-          // Extract metadata using improved EXIF parser logic
-          const imageMetadata = await this.extractImageMetadata(imageBuffer);
-
-          // Store into media.metadata
-          media.metadata = {
-            ...imageMetadata,
-            responsiveImages: await this.generateResponsiveImages(key),
-          };
+    try {
+      // Check what actually landed in storage before doing any work
+      const media = await this.getMedia(mediaId);
+      const info = await this.uploadValidator.checkObject(media, key);
+
+      // Validation, hashing and processing all read this one download
+      const originalPath = path.join(workDir, 'original');
+      await pipeline(
+        this.storage.getObjectStream(key),
+        createWriteStream(originalPath)
+      );
+      const inspection = await this.uploadValidator.inspect(
+        media,
+        info,
+        originalPath
+      );
 
-          this.logger.log(`Image metadata extracted for mediaId: ${mediaId}`);
+      await this.usageService.recordObject({
+        userId: media.uploadedBy,
+        mediaId,
+        mediaType: media.type,
+        kind: UsageKind.ORIGINAL,
+        key: media.key,
+        bytes: inspection.size,
+      });
 
-          if (media.type === MediaType.PROFILE_PICTURE) {
-            await this.updateUserProfilePicture(media.id, userId, manager);
-          }
-        }
+      // Reuse the work done for an identical earlier upload, if there is one
+      const contentHash = await this.computeContentHash(originalPath);
+      const original = await this.findDuplicateOriginal(media, contentHash);
+      if (original && (await this.canReuseDerivatives(media, original))) {
+        await this.linkDuplicate(media, original, contentHash);
+        this.logger.log(
+          `Processing completed for media: ${mediaId} (duplicate of ${original.id})`
+        );
+        return;
       }
-
-      if (media.type === MediaType.VIDEO) {
-        try {
-          const jobId = await this.contentModerator.moderateVideo(mediaId, key);
-          this.logger.log(
-            `Video moderation started for ${mediaId}, Job ID: ${jobId}`
-          );
-
-          await this.dynamoDB
-            .put({
-              TableName: 'video_moderation_jobs',
-              Item: {
-                mediaId,
-                jobId,
-                key,
-                status: 'PENDING',
-                createdAt: new Date().toISOString(),
-                updatedAt: new Date().toISOString(),
-              },
-            })
-            .promise();
-
-          await this.videoTranscoder.transcodeVideo(mediaId, key);
-        } catch (error) {
-          console.log(
-            'Failed to initiate video moderation for: ${mediaId}`,',
-            error
-          );
-          this.logger.error(
-            `Failed video moderation for: ${mediaId}`,
-            error as any
-          );
-          throw new BadRequestException('Video moderation failed');
-        }
+      media.contentHash = contentHash;
+
+      if (original) {
+        // Only the stored original and its moderation result carry over
+        await this.shareOriginal(media, original);
+        await this.runPipeline(
+          media,
+          this.pipeline
+            .getStepNames(media.type)
+            .filter(step => !MODERATION_STEPS.includes(step)),
+          originalPath
+        );
+      } else {
+        await this.runPipeline(media, undefined, originalPath);
+      }
+    } catch (error) {
+      if (error instanceof UploadRejectedError) {
+        await this.rejectUpload(mediaId, error.message);
+        return;
       }
 
-      await manager.save(media);
-    });
+      await this.updateStatus(
+        mediaId,
+        MediaStatus.FAILED,
+        (error as Error).message
+      ).catch(statusError =>
+        this.logger.error(
+          `Failed to record processing failure for media: ${mediaId}`,
+          (statusError as Error).stack
+        )
+      );
+      throw error;
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
 
     this.logger.log(`Processing completed for media: ${mediaId}`);
   }
 
   /**
-   * Generates a thumbnail for an image and uploads it to S3.
+   * Deletes an upload that failed validation and records why it was rejected.
    */
-  async generateImageThumbnail(key: string): Promise<string> {
-    this.logger.log(`Generating thumbnail for key: ${key}`);
-
-    const params = {
-      Bucket: this.bucketName,
-      Key: key,
-    };
+  private async rejectUpload(mediaId: string, reason: string): Promise<void> {
+    this.logger.warn(`Upload rejected for media ${mediaId}: ${reason}`);
 
+    const media = await this.getMedia(mediaId);
     try {
-      const image = await this.s3.getObject(params).promise();
-      const thumbnail = await sharp(image.Body as Buffer)
-        .resize(200, 200) // Resize to 200x200 pixels
-        .toBuffer();
-
-      const thumbnailKey = key.replace(/(\.\w+)$/, '_thumbnail$1');
-      const uploadParams = {
-        Bucket: this.bucketName,
-        Key: thumbnailKey,
-        Body: thumbnail,
-        ContentType: 'image/jpeg', // Adjust based on original image type
-        CacheControl: 'max-age=31536000', // Cache for 1 year
-      };
-
-      await this.s3.putObject(uploadParams).promise();
-      const thumbnailUrl = `https://${this.cloudFrontDomain}/${key}`;
-      this.logger.log(`Thumbnail generated and uploaded: ${thumbnailUrl}`);
-      return thumbnailUrl;
+      await this.storage.deleteObject(media.key);
     } catch (error) {
       this.logger.error(
-        `Failed to generate thumbnail for key: ${key}`,
+        `Failed to delete rejected upload: ${media.key}`,
         (error as any).stack
       );
-      throw new BadRequestException('Failed to generate thumbnail');
     }
+
+    await this.updateStatus(
+      mediaId,
+      MediaStatus.FAILED,
+      `Upload rejected: ${reason}`
+    );
   }
 
   /**
-   * Optimizes an image by compressing and converting it to WebP format.
+   * Computes the SHA-256 of a local file without buffering it in memory.
    */
-  async optimizeImage(key: string): Promise<string> {
-    this.logger.log(`Optimizing image for key: ${key}`);
+  private async computeContentHash(localPath: string): Promise<string> {
+    const hash = createHash('sha256');
+    for await (const chunk of createReadStream(localPath)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
 
-    const params = {
-      Bucket: this.bucketName,
-      Key: key,
-    };
+  /**
+   * Finds the user's earliest fully processed media with the same content, if any.
+   * Images only match images (of any image type) and videos only match videos.
+   */
+  private async findDuplicateOriginal(
+    media: Media,
+    contentHash: string
+  ): Promise<Media | null> {
+    const query = this.mediaRepository
+      .createQueryBuilder('media')
+      .leftJoinAndSelect('media.album', 'album')
+      .where('media.uploadedBy = :userId', { userId: media.uploadedBy })
+      .andWhere('media.contentHash = :contentHash', { contentHash })
+      .andWhere('media.id != :id', { id: media.id })
+      .andWhere('media.duplicateOfId IS NULL')
+      .andWhere('media.status = :status', { status: MediaStatus.READY });
+
+    if (media.type === MediaType.VIDEO) {
+      query.andWhere('media.type = :type', { type: MediaType.VIDEO });
+    } else {
+      query.andWhere('media.type != :type', { type: MediaType.VIDEO });
+    }
+
+    return query.orderBy('media.createdAt', 'ASC').getOne();
+  }
+
+  /**
+   * Whether a duplicate would be processed into the same derivatives as its
+   * original: both are of the same media type, with the same thumbnail crop
+   * and the same watermark profile, if their pipeline applies one (to images,
+   * or to video posters and thumbnails).
+   */
+  private async canReuseDerivatives(
+    media: Media,
+    original: Media
+  ): Promise<boolean> {
+    if (media.type !== original.type || !sameCrop(media.crop, original.crop)) {
+      return false;
+    }
+    if (
+      !this.pipeline
+        .getStepNames(media.type)
+        .some(step => WATERMARKING_STEPS.includes(step))
+    ) {
+      return true;
+    }
+
+    const [profile, originalProfile] = await Promise.all([
+      this.watermarksService.resolveProfile(
+        media.uploadedBy,
+        media.album?.visibility
+      ),
+      this.watermarksService.resolveProfile(
+        original.uploadedBy,
+        original.album?.visibility
+      ),
+    ]);
+    return profile?.id === originalProfile?.id;
+  }
+
+  /**
+   * Points a duplicate upload at the stored objects, derivatives and moderation
+   * result of the original, then deletes the duplicate's own upload.
+   */
+  private async linkDuplicate(
+    media: Media,
+    original: Media,
+    contentHash: string
+  ): Promise<void> {
+    this.logger.log(
+      `Media ${media.id} duplicates ${original.id}; reusing its derivatives`
+    );
+
+    await this.connection.transaction(async (manager: EntityManager) => {
+      const duplicate = await manager.findOne(Media, {
+        where: { id: media.id },
+      });
+      if (!duplicate) {
+        throw new BadRequestException('Media not found');
+      }
+
+      duplicate.contentHash = contentHash;
+      duplicate.duplicateOfId = original.id;
+      duplicate.url = original.url;
+      duplicate.masterKey = original.masterKey;
+      duplicate.watermarkKey = original.watermarkKey;
+      duplicate.thumbnailUrl = original.thumbnailUrl;
+      duplicate.blurhash = original.blurhash;
+      duplicate.dominantColor = original.dominantColor;
+      duplicate.palette = original.palette;
+      duplicate.metadata = original.metadata;
+      duplicate.transcodingProfile = original.transcodingProfile;
+      duplicate.renditions = original.renditions;
+      duplicate.dashUrl = original.dashUrl;
+      duplicate.playlistKey = original.playlistKey;
+      duplicate.isFlagged = original.isFlagged;
+      duplicate.tags = Array.from(
+        new Set([...(duplicate.tags ?? []), ...(original.tags ?? [])])
+      );
+      this.transitionStatus(duplicate, MediaStatus.READY);
+      await manager.save(duplicate);
+
+      if (
+        duplicate.type === MediaType.PROFILE_PICTURE &&
+        !duplicate.isFlagged
+      ) {
+        await this.updateUserProfilePicture(
+          duplicate.id,
+          duplicate.uploadedBy,
+          manager
+        );
+      }
+    });
 
+    // The duplicate's own upload is no longer needed
     try {
-      const image = await this.s3.getObject(params).promise();
-      const optimizedBuffer = await sharp(image.Body as Buffer)
-        .resize({ width: 800 }) // Resize to a maximum width of 800px
-        .webp({ quality: 80 }) // Convert to WebP with 80% quality
-        .toBuffer();
-
-      const optimizedKey = key.replace(/(\.\w+)$/, '_optimized.webp');
-      const uploadParams = {
-        Bucket: this.bucketName,
-        Key: optimizedKey,
-        Body: optimizedBuffer,
-        ContentType: 'image/webp',
-        CacheControl: 'max-age=31536000', // Cache for 1 year
-      };
+      await this.storage.deleteObject(media.key);
+      await this.usageService.removeKey(media.key);
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete duplicate upload: ${media.key}`,
+        (error as any).stack
+      );
+    }
+  }
 
-      await this.s3.putObject(uploadParams).promise();
-      const optimizedUrl = `https://${this.cloudFrontDomain}/${key}`;
-      this.logger.log(`Optimized image uploaded: ${optimizedUrl}`);
-      return optimizedUrl;
+  /**
+   * Points a duplicate upload that needs derivatives of its own at the stored
+   * original and moderation result of an identical upload, then deletes the
+   * duplicate's own upload. Its derivatives are still named after that upload.
+   */
+  private async shareOriginal(media: Media, original: Media): Promise<void> {
+    this.logger.log(
+      `Media ${media.id} duplicates ${original.id}; sharing its original`
+    );
+
+    const uploadKey = media.key;
+    media.uploadKey = uploadKey;
+    media.key = original.key;
+    media.url = this.storage.getPublicUrl(original.key);
+    media.isFlagged = original.isFlagged;
+    await this.mediaRepository.save(media);
+
+    // The duplicate's own upload is no longer needed
+    try {
+      await this.storage.deleteObject(uploadKey);
+      await this.usageService.removeKey(uploadKey);
     } catch (error) {
       this.logger.error(
-        `Failed to optimize image for key: ${key}`,
+        `Failed to delete duplicate upload: ${uploadKey}`,
         (error as any).stack
       );
-      throw new BadRequestException('Failed to optimize image');
     }
   }
 
   /**
-   * Optimizes an image by compressing and converting it to WebP format.
-   * (Redundant method name removed)
+   * Runs the media type's processing pipeline, or only the given steps, and
+   * moves the media on to its next status.
    */
+  private async runPipeline(
+    media: Media,
+    stepNames?: string[],
+    originalPath?: string
+  ): Promise<void> {
+    const { awaitingTranscoding } = await this.pipeline.run(
+      media,
+      stepNames,
+      originalPath
+    );
+
+    this.transitionStatus(
+      media,
+      awaitingTranscoding ? MediaStatus.TRANSCODING : MediaStatus.READY
+    );
+    await this.mediaRepository.save(media);
+  }
 
   /**
-   * Extracts metadata from an image using exif-parser.
+   * Retries a failed processing step. If the failure stopped the pipeline,
+   * processing resumes from that step; otherwise only the step is re-run.
    */
-  async extractImageMetadata(buffer: Buffer): Promise<Record<string, any>> {
+  async retryProcessingStep(
+    mediaId: string,
+    step: string,
+    userId: string
+  ): Promise<Media> {
+    const media = await this.getMedia(mediaId);
+
+    if (media.uploadedBy !== userId) {
+      this.logger.warn(
+        `User ${userId} unauthorized to retry media: ${mediaId}`
+      );
+      throw new BadRequestException('Unauthorized');
+    }
+
+    if (media.duplicateOfId) {
+      throw new BadRequestException(
+        'Duplicates share the processing of their original'
+      );
+    }
+
+    const stepNames = this.pipeline.getStepNames(media.type);
+    if (
+      !stepNames.includes(step) ||
+      media.processingSteps?.[step]?.status !== ProcessingStepStatus.FAILED
+    ) {
+      throw new BadRequestException(`Processing step ${step} has not failed`);
+    }
+
+    this.logger.log(`Retrying processing step ${step} for media: ${mediaId}`);
+
+    if (media.status !== MediaStatus.FAILED) {
+      // An optional step failed; the rest of the pipeline already ran
+      await this.pipeline.run(media, [step]);
+      await this.attachVariants([media]);
+      return media;
+    }
+
+    const remaining = stepNames
+      .slice(stepNames.indexOf(step))
+      .filter(
+        name =>
+          media.processingSteps?.[name]?.status !==
+          ProcessingStepStatus.SUCCEEDED
+      );
+
+    this.transitionStatus(media, MediaStatus.PROCESSING);
+    await this.mediaRepository.save(media);
+
     try {
-      const parser = exifParser.create(buffer);
-      const result = parser.parse();
-
-      // Extract common metadata fields
-      const tags = result.tags || {};
-      const metadata = {
-        orientation: tags.Orientation,
-        width: tags.ExifImageWidth,
-        height: tags.ExifImageHeight,
-        cameraMake: tags.Make,
-        cameraModel: tags.Model,
-        iso: tags.ISO,
-        exposureTime: tags.ExposureTime,
-        focalLength: tags.FocalLength,
-        creationDate: tags.DateTimeOriginal,
-      };
-      this.logger.log(`Extracted image metadata: ${JSON.stringify(metadata)}`);
-      return metadata;
-    } catch (exifError) {
-      this.logger.warn('EXIF parsing failed, falling back to Sharp');
-
-      try {
-        const sharpMeta = await sharp(buffer).metadata();
-        const metadata = {
-          orientation: sharpMeta.orientation,
-          width: sharpMeta.width,
-          height: sharpMeta.height,
-          format: sharpMeta.format,
-        };
-        this.logger.log(
-          `Extracted image metadata: ${JSON.stringify(metadata)}`
-        );
-        return metadata;
-      } catch (sharpError) {
-        this.logger.warn('Sharp fallback metadata extraction failed');
-        return {};
-      }
+      await this.runPipeline(media, remaining);
+    } catch (error) {
+      await this.updateStatus(
+        mediaId,
+        MediaStatus.FAILED,
+        (error as Error).message
+      );
+      throw new BadRequestException((error as Error).message);
     }
+
+    await this.attachVariants([media]);
+    return media;
   }
 
   /**
-   * Extracts metadata from a video using FFprobe.
+   * Queues processed (or failed) media to be processed again, e.g. after a
+   * derivative size changes or a processing bug is fixed. Only the given
+   * steps are re-run, or the media type's whole pipeline.
    */
-  async extractVideoMetadata(key: string): Promise<any> {
-    this.logger.log(`Extracting video metadata for key: ${key}`);
+  async requestReprocess(mediaId: string, steps?: string[]): Promise<void> {
+    const media = await this.getMedia(mediaId);
 
-    const inputPath = `/tmp/${key.replace(/\//g, '_')}`; // safe file name
+    if (media.duplicateOfId) {
+      throw new BadRequestException(
+        'Duplicates share the processing of their original'
+      );
+    }
+
+    if (![MediaStatus.READY, MediaStatus.FAILED].includes(media.status)) {
+      throw new BadRequestException(
+        `Media in status ${media.status} cannot be reprocessed`
+      );
+    }
+
+    const stepNames = this.pipeline.getStepNames(media.type);
+    const unknown = (steps ?? []).filter(step => !stepNames.includes(step));
+    if (unknown.length) {
+      throw new BadRequestException(
+        `Unknown processing steps for ${media.type}: ${unknown.join(', ')}`
+      );
+    }
+
+    await this.publishEvent('MEDIA_PROCESSING', {
+      mediaId,
+      key: media.key,
+      userId: media.uploadedBy,
+      albumId: media.album?.id,
+      tags: media.tags,
+      reprocess: true,
+      // Keep pipeline order whatever order the steps were given in
+      steps: steps && stepNames.filter(step => steps.includes(step)),
+    });
+  }
+
+  /**
+   * Re-runs the processing of a stored upload, skipping the upload checks
+   * and duplicate detection done the first time. Media that has moved on
+   * since reprocessing was requested is left alone.
+   */
+  async reprocessMedia(mediaId: string, steps?: string[]): Promise<void> {
+    const media = await this.getMedia(mediaId);
+
+    if (
+      media.duplicateOfId ||
+      ![MediaStatus.READY, MediaStatus.FAILED].includes(media.status)
+    ) {
+      this.logger.warn(
+        `Skipping reprocessing of media ${mediaId} in status ${media.status}`
+      );
+      return;
+    }
+
+    this.logger.log(`Reprocessing media: ${mediaId}`);
+    this.transitionStatus(media, MediaStatus.PROCESSING);
+    await this.mediaRepository.save(media);
 
     try {
-      // Download the video from S3
-      const params = { Bucket: this.bucketName, Key: key };
-      const video = await this.s3.getObject(params).promise();
-      await fs.writeFile(inputPath, video.Body as Buffer);
+      await this.runPipeline(media, steps);
+    } catch (error) {
+      await this.updateStatus(
+        mediaId,
+        MediaStatus.FAILED,
+        (error as Error).message
+      );
+      throw error;
+    }
+    this.logger.log(`Reprocessing completed for media: ${mediaId}`);
+  }
 
-      // Confirm file exists
-      const exists = await fs.stat(inputPath).catch(() => null);
-      if (!exists)
-        throw new Error(`Failed to write video to disk at ${inputPath}`);
+  /**
+   * Moves media to a new lifecycle status, rejecting invalid transitions.
+   * A failure reason is kept only while the media is in the failed state.
+   */
+  transitionStatus(
+    media: Media,
+    status: MediaStatus,
+    failureReason?: string
+  ): void {
+    if (!canTransitionStatus(media.status, status)) {
+      this.logger.warn(
+        `Invalid status transition for media ${media.id}: ${media.status} -> ${status}`
+      );
+      throw new BadRequestException(
+        `Cannot move media from ${media.status} to ${status}`
+      );
+    }
+
+    media.status = status;
+    media.failureReason =
+      status === MediaStatus.FAILED ? failureReason ?? null : null;
+  }
+
+  /**
+   * Loads a media item and moves it to a new lifecycle status.
+   */
+  async updateStatus(
+    mediaId: string,
+    status: MediaStatus,
+    failureReason?: string
+  ): Promise<void> {
+    await this.connection.transaction(async (manager: EntityManager) => {
+      const media = await manager.findOne(Media, { where: { id: mediaId } });
 
+      if (!media) {
+        this.logger.warn(`Media not found for status update: ${mediaId}`);
+        throw new BadRequestException('Media not found');
+      }
+
+      this.transitionStatus(media, status, failureReason);
+      await manager.save(media);
+
+      this.logger.log(`Media ${mediaId} status updated to ${status}`);
+    });
+  }
+
+  /**
+   * Extracts metadata from a local video file using FFprobe.
+   */
+  async extractVideoMetadata(inputPath: string): Promise<any> {
+    this.logger.log(`Extracting video metadata for file: ${inputPath}`);
+
+    try {
       // Extract metadata using fluent-ffmpeg
       const metadata = await new Promise((resolve, reject) => {
         ffmpeg.ffprobe(inputPath, (err, data) => {
@@ -431,6 +1148,7 @@ export class MediaService {
             level: videoStream?.level, // codec level
             profile: videoStream?.profile, // codec profile e.g., High, Main
             rotation: videoStream?.tags?.rotate || 0, // if available (useful for phone videos)
+            hasAudio: data.streams.some(s => s.codec_type === 'audio'),
             creationTime:
               videoStream?.tags?.creation_time || // when video was captured
               data.format.tags?.creation_time,
@@ -444,73 +1162,16 @@ export class MediaService {
       });
 
       this.logger.log(`Extracted video metadata: ${JSON.stringify(metadata)}`);
-
-      await fs.unlink(inputPath); // clean up
       return metadata;
     } catch (error) {
       console.log('Failed to extract video metadata:', error);
-      this.logger.warn(`Failed to extract video metadata for key: ${key}`);
+      this.logger.warn(
+        `Failed to extract video metadata for file: ${inputPath}`
+      );
       return {};
     }
   }
 
-  /**
-   * Generates responsive images at different resolutions.
-   */
-  async generateResponsiveImages(key: string): Promise<string[]> {
-    this.logger.log(`Generating responsive images for key: ${key}`);
-
-    const resolutions = [320, 640, 1024, 1600];
-    const responsiveUrls: string[] = [];
-
-    try {
-      // Fetch original image
-      const { Body, ContentType } = await this.s3
-        .getObject({ Bucket: this.bucketName, Key: key })
-        .promise();
-
-      if (!Body) {
-        this.logger.warn(`No image body found for key: ${key}`);
-        return [];
-      }
-
-      const imageBuffer = Body as Buffer;
-
-      for (const width of resolutions) {
-        const responsiveKey = key.replace(/(\.\w+)$/, `_${width}px.webp`);
-
-        const resizedBuffer = await sharp(imageBuffer)
-          .resize({ width })
-          .webp({ quality: 80 })
-          .toBuffer();
-
-        await this.s3
-          .putObject({
-            Bucket: this.bucketName,
-            Key: responsiveKey,
-            Body: resizedBuffer,
-            ContentType: 'image/webp',
-            CacheControl: 'max-age=31536000',
-          })
-          .promise();
-
-        const responsiveUrl = `https://${this.cloudFrontDomain}/${responsiveKey}`;
-        responsiveUrls.push(responsiveUrl);
-        this.logger.log(`Uploaded responsive image: ${responsiveUrl}`);
-      }
-
-      return responsiveUrls;
-    } catch (error) {
-      this.logger.error(`Failed to generate responsive images for key: ${key}`);
-      return [];
-    }
-  }
-
-  /**
-   * Adds a watermark to an image and uploads it to S3.
-   * (This method was already defined above; no need to repeat.)
-   */
-
   /**
    * Updates the user's profile picture in the auth & user microservice.
    */
@@ -580,6 +1241,39 @@ export class MediaService {
     });
   }
 
+  /**
+   * Retrieves a user's storage usage, broken down by media type.
+   */
+  async getUsage(userId: string, plan?: string): Promise<UsageBreakdown> {
+    return this.usageService.getUsage(userId, plan);
+  }
+
+  /**
+   * Retrieves a user's media settings.
+   */
+  async getSettings(userId: string): Promise<UserSettings> {
+    return this.settingsService.getSettings(userId);
+  }
+
+  /**
+   * Updates a user's media settings. Turning `keepLocation` off also erases
+   * the locations already kept for their media.
+   */
+  async updateSettings(
+    userId: string,
+    changes: UpdateSettingsDto
+  ): Promise<UserSettings> {
+    const settings = await this.settingsService.updateSettings(userId, changes);
+    if (changes.keepLocation === false) {
+      await this.mediaRepository.update(
+        { uploadedBy: userId },
+        { latitude: null, longitude: null }
+      );
+      this.logger.log(`Erased kept locations for user: ${userId}`);
+    }
+    return settings;
+  }
+
   /**
    * Retrieves a media item by ID.
    */
@@ -596,7 +1290,111 @@ export class MediaService {
   }
 
   /**
-   * Deletes a media item.
+   * Retrieves a media item by ID along with its registered variants.
+   */
+  async getMediaWithVariants(id: string): Promise<Media> {
+    const media = await this.getMedia(id);
+    await this.attachVariants([media]);
+    return media;
+  }
+
+  /**
+   * Resolves the image variant to deliver to a client: the responsive size
+   * closest to `width`, or the optimized image, in the most efficient format
+   * the client's `Accept` header allows. Media in private albums is only
+   * delivered to the album's owner; `restricted` is set for media that is not
+   * visible to everyone, so responses must not be cached publicly.
+   */
+  async getDeliveryUrl(
+    id: string,
+    userId: string,
+    accept?: string,
+    width?: number
+  ): Promise<{ url: string; restricted: boolean }> {
+    const media = await this.getMedia(id);
+
+    if (
+      media.album &&
+      (!media.album.visibility ||
+        media.album.visibility === Visibility.PRIVATE) &&
+      media.album.createdBy !== userId
+    ) {
+      throw new BadRequestException('Access to this media is forbidden');
+    }
+
+    if (
+      media.type === MediaType.VIDEO ||
+      media.status !== MediaStatus.READY ||
+      media.isFlagged
+    ) {
+      throw new BadRequestException('Media cannot be delivered');
+    }
+
+    const variants = await this.derivativeRepository.find({
+      where: {
+        mediaId: media.duplicateOfId ?? media.id,
+        kind: width ? DerivativeKind.RESPONSIVE : DerivativeKind.OPTIMIZED,
+      },
+    });
+    const variant = selectVariant(variants, negotiateFormats(accept), width);
+
+    return {
+      // Media processed before variants were registered only has its main URL
+      url: variant?.url ?? media.url,
+      restricted:
+        !!media.album && media.album.visibility !== Visibility.EVERYONE,
+    };
+  }
+
+  /**
+   * Fills in the registered derivatives of each media item. Duplicates list
+   * the derivatives of the media they duplicate. The clean master of
+   * watermarked media is left out.
+   */
+  private async attachVariants(items: Media[]): Promise<void> {
+    const ownerId = (media: Media) => media.duplicateOfId ?? media.id;
+    const derivatives = items.length
+      ? await this.derivativeRepository.find({
+          where: { mediaId: In(items.map(ownerId)) },
+          order: { kind: 'ASC', width: 'ASC' },
+        })
+      : [];
+
+    for (const media of items) {
+      media.variants = derivatives.filter(
+        derivative =>
+          derivative.mediaId === ownerId(media) && !isPrivateKey(derivative.key)
+      );
+    }
+  }
+
+  /**
+   * Issues a short-lived download URL for the original upload, as opposed to
+   * the converted master and derivatives served from the public URL.
+   */
+  async getOriginalDownload(
+    id: string,
+    userId: string
+  ): Promise<{ url: string; mimetype: string | null }> {
+    const media = await this.getMedia(id);
+
+    if (media.uploadedBy !== userId) {
+      this.logger.warn(`User ${userId} unauthorized to download media: ${id}`);
+      throw new BadRequestException('Unauthorized');
+    }
+
+    // Duplicates share the stored objects of the media they duplicate
+    const owner = media.duplicateOfId
+      ? await this.getMedia(media.duplicateOfId)
+      : media;
+    const url = await this.storage.getDownloadUrl(owner.key, 300); // 5 minutes
+
+    return { url, mimetype: media.mimetype ?? null };
+  }
+
+  /**
+   * Deletes a media item along with every stored object charged to it, and
+   * releases its storage usage.
    */
   async deleteMedia(id: string, userId: string): Promise<void> {
     const media = await this.mediaRepository.findOne({ where: { id } });
@@ -611,13 +1409,37 @@ export class MediaService {
       throw new BadRequestException('Unauthorized');
     }
 
-    const params = {
-      Bucket: this.bucketName,
-      Key: media.key,
-    };
-
     try {
-      await this.s3.deleteObject(params).promise();
+      // Duplicates still point at this media's stored objects: hand them over
+      if (await this.promoteDuplicate(media)) {
+        this.logger.log(`Media deleted: ${id} by user: ${userId}`);
+        return;
+      }
+
+      // The usage ledger also covers objects stored before the derivative registry
+      const derivatives = await this.derivativeRepository.find({
+        where: { mediaId: id },
+      });
+      const keys = new Set([
+        media.key,
+        ...derivatives.map(derivative => derivative.key),
+        ...(await this.usageService.getMediaKeys(id)),
+      ]);
+
+      // Media with derivatives of its own may still share the original
+      const sharer = await this.mediaRepository.findOne({
+        where: { key: media.key, id: Not(id) },
+        order: { createdAt: 'ASC' },
+      });
+      if (sharer) {
+        keys.delete(media.key);
+        await this.usageService.transferKey(media.key, id, sharer.id);
+      }
+
+      for (const key of keys) {
+        await this.storage.deleteObject(key);
+      }
+      await this.usageService.removeMedia(id);
       await this.mediaRepository.delete(id);
       this.logger.log(`Media deleted: ${id} by user: ${userId}`);
     } catch (error) {
@@ -627,13 +1449,60 @@ export class MediaService {
   }
 
   /**
-   * Lists media items with pagination and optional album filtering.
+   * If other media reuse this item's stored objects, deletes only the row and
+   * makes the oldest duplicate the new owner of the objects and their usage.
+   * @returns `true` if a duplicate was promoted.
+   */
+  private async promoteDuplicate(media: Media): Promise<boolean> {
+    const duplicates = await this.mediaRepository.find({
+      where: { duplicateOfId: media.id },
+      order: { createdAt: 'ASC' },
+    });
+    if (!duplicates.length) {
+      return false;
+    }
+
+    const [heir] = duplicates;
+    await this.connection.transaction(async (manager: EntityManager) => {
+      await manager.update(
+        MediaDerivative,
+        { mediaId: media.id },
+        { mediaId: heir.id }
+      );
+      // The captions are listed in the shared playlist, which the heir now owns
+      await manager.update(
+        CaptionTrack,
+        { mediaId: media.id },
+        { mediaId: heir.id }
+      );
+      await manager.delete(Media, media.id);
+      await manager.update(Media, heir.id, {
+        key: media.key,
+        uploadKey: media.uploadKey,
+        playlistKey: media.playlistKey,
+        duplicateOfId: null,
+      });
+      await manager.update(
+        Media,
+        { duplicateOfId: media.id },
+        { duplicateOfId: heir.id }
+      );
+    });
+    await this.usageService.transferMedia(media.id, heir.id);
+
+    this.logger.log(`Promoted media ${heir.id} to own objects of ${media.id}`);
+    return true;
+  }
+
+  /**
+   * Lists media items with pagination and optional album and status filtering.
    */
   async getMediaList(
     userId: string,
     page: number = 1,
     limit: number = 20,
-    albumId?: string
+    albumId?: string,
+    status?: MediaStatus
   ): Promise<{ data: Media[]; total: number }> {
     const query = this.mediaRepository
       .createQueryBuilder('media')
@@ -643,12 +1512,17 @@ export class MediaService {
       query.andWhere('media.album = :albumId', { albumId });
     }
 
+    if (status) {
+      query.andWhere('media.status = :status', { status });
+    }
+
     query
       .skip((page - 1) * limit)
       .take(limit)
       .orderBy('media.createdAt', 'DESC');
 
     const [data, total] = await query.getManyAndCount();
+    await this.attachVariants(data);
     this.logger.log(
       `Retrieved media list for user: ${userId}, page: ${page}, limit: ${limit}`
     );
@@ -0,0 +1,150 @@
+// src/media/pipeline/media-pipeline.service.ts
+
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { LoggerService } from 'src/logger/logger.service';
+import { StorageProvider } from 'src/aws/storage/storage.provider';
+import { MediaType } from '../../common/enums/media-type.enum';
+import { ProcessingStepStatus } from '../../common/enums/processing-step-status.enum';
+import { Media } from '../media.entity';
+import { DerivativeStore } from '../derivative-store.service';
+import { DEFAULT_PIPELINES } from './pipelines';
+import {
+  ProcessingContext,
+  ProcessingStep,
+  ProcessingStepError,
+  ProcessingStepResult,
+} from './processing-step';
+
+@Injectable()
+export class MediaPipeline implements OnModuleInit {
+  private readonly steps = new Map<string, ProcessingStep>();
+
+  constructor(
+    @Inject('PROCESSING_STEPS') steps: ProcessingStep[],
+    @InjectRepository(Media)
+    private mediaRepository: Repository<Media>,
+    @Inject('STORAGE') private readonly storage: StorageProvider,
+    private readonly derivativeStore: DerivativeStore,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService
+  ) {
+    steps.forEach(step => this.steps.set(step.name, step));
+  }
+
+  /**
+   * Fails fast on pipelines that name unregistered steps.
+   */
+  onModuleInit() {
+    for (const type of Object.values(MediaType)) {
+      this.getStepNames(type).forEach(name => this.getStep(name));
+    }
+  }
+
+  /**
+   * Ordered step names configured for a media type.
+   */
+  getStepNames(type: MediaType): string[] {
+    return (
+      this.configService.get<string[]>(`pipelines.${type}`) ??
+      DEFAULT_PIPELINES[type]
+    );
+  }
+
+  /**
+   * Runs the given steps, or the media type's whole pipeline, in order. Each
+   * step's outcome is saved on the media as soon as it finishes. Steps read
+   * the original from `originalPath` if the caller already downloaded it.
+   * @throws ProcessingStepError if a required step fails.
+   */
+  async run(
+    media: Media,
+    stepNames?: string[],
+    originalPath?: string
+  ): Promise<ProcessingContext> {
+    const context = new ProcessingContext(
+      media,
+      this.mediaRepository.manager,
+      derivative => this.derivativeStore.store(media, derivative),
+      this.storage,
+      originalPath
+    );
+
+    try {
+      for (const name of stepNames ?? this.getStepNames(media.type)) {
+        const step = this.getStep(name);
+        const result = await this.runStep(step, context);
+
+        if (result.status === ProcessingStepStatus.FAILED && step.required) {
+          throw new ProcessingStepError(step.name, result.error!);
+        }
+      }
+    } finally {
+      await context.cleanUp();
+    }
+    return context;
+  }
+
+  private getStep(name: string): ProcessingStep {
+    const step = this.steps.get(name);
+    if (!step) {
+      throw new Error(`Unknown processing step: ${name}`);
+    }
+    return step;
+  }
+
+  /**
+   * Runs a single step and records its outcome. Errors are caught and
+   * recorded; the caller decides whether they stop the pipeline.
+   */
+  private async runStep(
+    step: ProcessingStep,
+    context: ProcessingContext
+  ): Promise<ProcessingStepResult> {
+    const { media } = context;
+    const previous = media.processingSteps?.[step.name];
+    const startedAt = new Date();
+    let result: ProcessingStepResult;
+
+    if (step.shouldRun && !step.shouldRun(context)) {
+      result = {
+        status: ProcessingStepStatus.SKIPPED,
+        startedAt: startedAt.toISOString(),
+        durationMs: 0,
+        attempts: previous?.attempts ?? 0,
+      };
+    } else {
+      try {
+        await step.run(context);
+        result = {
+          status: ProcessingStepStatus.SUCCEEDED,
+          startedAt: startedAt.toISOString(),
+          durationMs: Date.now() - startedAt.getTime(),
+          attempts: (previous?.attempts ?? 0) + 1,
+        };
+      } catch (error) {
+        this.logger.error(
+          `Processing step ${step.name} failed for media: ${media.id}`,
+          (error as any).stack
+        );
+        result = {
+          status: ProcessingStepStatus.FAILED,
+          startedAt: startedAt.toISOString(),
+          durationMs: Date.now() - startedAt.getTime(),
+          attempts: (previous?.attempts ?? 0) + 1,
+          error: (error as Error).message,
+        };
+      }
+    }
+
+    media.processingSteps = { ...media.processingSteps, [step.name]: result };
+    await this.mediaRepository.save(media);
+
+    this.logger.log(
+      `Processing step ${step.name} ${result.status} for media: ${media.id} in ${result.durationMs}ms`
+    );
+    return result;
+  }
+}
@@ -0,0 +1,63 @@
+// src/media/pipeline/pipelines.ts
+
+import { MediaType } from '../../common/enums/media-type.enum';
+import { MasterStep } from './steps/master.step';
+import { ModerationStep } from './steps/moderation.step';
+import { ObjectDetectionStep } from './steps/object-detection.step';
+import { WatermarkStep } from './steps/watermark.step';
+import { ThumbnailStep } from './steps/thumbnail.step';
+import { PlaceholderStep } from './steps/placeholder.step';
+import { OptimizeStep } from './steps/optimize.step';
+import { MetadataStep } from './steps/metadata.step';
+import { ResponsiveImagesStep } from './steps/responsive-images.step';
+import { ProfilePictureStep } from './steps/profile-picture.step';
+import { VideoModerationStep } from './steps/video-moderation.step';
+import { TranscodeStep } from './steps/transcode.step';
+import { VideoPreviewsStep } from './steps/video-previews.step';
+
+/**
+ * Every processing step available to the pipeline. Add new steps here and to
+ * the pipelines of the media types that should run them.
+ */
+export const PROCESSING_STEPS = [
+  MasterStep,
+  ModerationStep,
+  ObjectDetectionStep,
+  WatermarkStep,
+  ThumbnailStep,
+  PlaceholderStep,
+  OptimizeStep,
+  MetadataStep,
+  ResponsiveImagesStep,
+  ProfilePictureStep,
+  VideoModerationStep,
+  TranscodeStep,
+  VideoPreviewsStep,
+];
+
+const IMAGE_STEPS = [
+  'master',
+  'moderation',
+  'object-detection',
+  'watermark',
+  'thumbnail',
+  'placeholder',
+  'optimize',
+  'metadata',
+  'responsive-images',
+];
+
+/**
+ * Ordered processing steps run for each media type, unless overridden with
+ * the `PIPELINE_<TYPE>` environment variables.
+ */
+export const DEFAULT_PIPELINES: Record<MediaType, string[]> = {
+  // Avatars are too small to carry a legible watermark
+  [MediaType.PROFILE_PICTURE]: [
+    ...IMAGE_STEPS.filter(step => step !== 'watermark'),
+    'profile-picture',
+  ],
+  [MediaType.ALBUM_COVER_IMAGE]: IMAGE_STEPS,
+  [MediaType.IMAGE]: IMAGE_STEPS,
+  [MediaType.VIDEO]: ['video-moderation', 'video-previews', 'transcode'],
+};
@@ -0,0 +1,192 @@
+// src/media/pipeline/processing-step.ts
+
+import { createWriteStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import { EntityManager } from 'typeorm';
+import { StorageProvider, toPublicKey } from 'src/aws/storage/storage.provider';
+import { ProcessingStepStatus } from '../../common/enums/processing-step-status.enum';
+import { Media } from '../media.entity';
+import { MediaDerivative } from '../media-derivative.entity';
+import { DerivativeOutput } from '../derivative-store.service';
+
+/**
+ * Outcome of the latest run of a processing step, recorded on the media.
+ */
+export interface ProcessingStepResult {
+  status: ProcessingStepStatus;
+  startedAt: string;
+  durationMs: number;
+  attempts: number;
+  error?: string;
+}
+
+/**
+ * Raised when a required step fails and the pipeline cannot continue.
+ */
+export class ProcessingStepError extends Error {
+  constructor(readonly step: string, readonly reason: string) {
+    super(`Processing step ${step} failed: ${reason}`);
+  }
+}
+
+/**
+ * Stores a derivative of the media being processed, registers it and charges
+ * it to the owner.
+ */
+export type DerivativeWriter = (
+  derivative: DerivativeOutput
+) => Promise<MediaDerivative>;
+
+/**
+ * State shared by the steps of a single pipeline run. Stored objects are
+ * downloaded at most once per run.
+ */
+export class ProcessingContext {
+  private originalPath?: Promise<string>;
+  private workDir?: string;
+  private original?: Promise<Buffer>;
+  private master?: Promise<Buffer>;
+  private source?: Promise<Buffer>;
+
+  /**
+   * Set when a step hands the media to a background transcoding job; the
+   * media then waits in the transcoding state instead of becoming ready.
+   */
+  awaitingTranscoding = false;
+
+  constructor(
+    readonly media: Media,
+    readonly manager: EntityManager,
+    readonly storeDerivative: DerivativeWriter,
+    private readonly storage: StorageProvider,
+    originalPath?: string
+  ) {
+    if (originalPath) {
+      this.originalPath = Promise.resolve(originalPath);
+    }
+  }
+
+  /**
+   * Key of the image that derivatives are generated from: the watermarked
+   * master if a watermark applies, else the sanitized master if one was
+   * created, otherwise the original upload.
+   */
+  get sourceKey(): string {
+    return this.media.watermarkKey ?? this.media.masterKey ?? this.media.key;
+  }
+
+  /**
+   * Key that derivatives of the source are named after. It only differs from
+   * `sourceKey` for media sharing its original with an identical upload,
+   * whose derivatives are named after its own upload so that they do not
+   * overwrite the derivatives of the other one.
+   */
+  get baseKey(): string {
+    return (
+      this.media.watermarkKey ??
+      this.media.masterKey ??
+      toPublicKey(this.media.uploadKey ?? this.media.key)
+    );
+  }
+
+  /**
+   * Path of a local copy of the original upload: the one the pipeline was
+   * given, or one downloaded on first use and deleted by `cleanUp`.
+   */
+  getOriginalPath(): Promise<string> {
+    this.originalPath ??= this.downloadOriginal();
+    return this.originalPath;
+  }
+
+  /**
+   * The original upload.
+   */
+  getOriginal(): Promise<Buffer> {
+    this.original ??= this.getOriginalPath().then(localPath =>
+      fs.readFile(localPath)
+    );
+    return this.original;
+  }
+
+  /**
+   * The sanitized master without any watermark, or the original upload if
+   * there is no master.
+   */
+  getMaster(): Promise<Buffer> {
+    if (!this.media.masterKey) {
+      return this.getOriginal();
+    }
+    this.master ??= this.storage.getObject(this.media.masterKey);
+    return this.master;
+  }
+
+  /**
+   * The contents of `sourceKey`.
+   */
+  getSource(): Promise<Buffer> {
+    if (!this.media.watermarkKey) {
+      return this.getMaster();
+    }
+    this.source ??= this.storage.getObject(this.media.watermarkKey);
+    return this.source;
+  }
+
+  /**
+   * Replaces the master for the rest of the run with a freshly created one,
+   * so later steps do not download it again.
+   */
+  setMaster(buffer: Buffer): void {
+    this.master = Promise.resolve(buffer);
+  }
+
+  /**
+   * Replaces the watermarked source for the rest of the run with a freshly
+   * created one.
+   */
+  setSource(buffer: Buffer): void {
+    this.source = Promise.resolve(buffer);
+  }
+
+  /**
+   * Deletes the local copy of the original if the run downloaded it.
+   */
+  async cleanUp(): Promise<void> {
+    if (this.workDir) {
+      await fs.rm(this.workDir, { recursive: true, force: true });
+    }
+  }
+
+  private async downloadOriginal(): Promise<string> {
+    this.workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'original-'));
+    const localPath = path.join(this.workDir, 'original');
+    await pipeline(
+      this.storage.getObjectStream(this.media.key),
+      createWriteStream(localPath)
+    );
+    return localPath;
+  }
+}
+
+/**
+ * A named unit of media processing. Steps are registered with the pipeline
+ * and run in the order configured for each media type.
+ */
+export interface ProcessingStep {
+  readonly name: string;
+
+  /**
+   * Whether a failure stops the pipeline and fails the media. Failures of
+   * optional steps are recorded and the pipeline carries on.
+   */
+  readonly required: boolean;
+
+  /**
+   * Returns `false` to skip the step for this media, e.g. once it is flagged.
+   */
+  shouldRun?(context: ProcessingContext): boolean;
+
+  run(context: ProcessingContext): Promise<void>;
+}
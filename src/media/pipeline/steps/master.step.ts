@@ -0,0 +1,117 @@
+// src/media/pipeline/steps/master.step.ts
+
+import sharp from 'sharp';
+import { Inject, Injectable } from '@nestjs/common';
+import { LoggerService } from 'src/logger/logger.service';
+import {
+  isPrivateKey,
+  StorageProvider,
+  toPrivateKey,
+  toPublicKey,
+} from 'src/aws/storage/storage.provider';
+import { UsageService } from 'src/usage/usage.service';
+import { DerivativeKind } from '../../../common/enums/derivative-kind.enum';
+import { UsageKind } from '../../../common/enums/usage-kind.enum';
+import { MASTERED_IMAGE_MIMETYPES } from '../../media-constraints';
+import { Media } from '../../media.entity';
+import { ProcessingContext, ProcessingStep } from '../processing-step';
+
+/**
+ * Writes a sanitized master that every later step and the public URL use
+ * instead of the original: rotated upright from the EXIF orientation, with
+ * GPS, serial numbers and all other metadata removed, and in a format that
+ * browsers and Rekognition support (HEIC, HEIF, AVIF and WebP become JPEG, or
+ * PNG when the image has transparency). The original is kept untouched under
+ * the private prefix and is only available to its owner (see
+ * `MediaService.getOriginalDownload`); originals uploaded before that are
+ * moved there.
+ */
+@Injectable()
+export class MasterStep implements ProcessingStep {
+  readonly name = 'master';
+  readonly required = true;
+
+  constructor(
+    @Inject('STORAGE') private readonly storage: StorageProvider,
+    private readonly usageService: UsageService,
+    private readonly logger: LoggerService
+  ) {}
+
+  shouldRun({ media }: ProcessingContext): boolean {
+    return MASTERED_IMAGE_MIMETYPES.includes(media.mimetype ?? '');
+  }
+
+  async run(context: ProcessingContext): Promise<void> {
+    const { media } = context;
+    this.logger.log(`Creating sanitized master for key: ${media.key}`);
+
+    const image = await context.getOriginal();
+    const { hasAlpha } = await sharp(image).metadata();
+    const lossless = hasAlpha || media.mimetype === 'image/png';
+    // Apply EXIF orientation; sharp writes no metadata unless asked to
+    const master = sharp(image).rotate();
+    const { data: buffer, info } = await (lossless
+      ? master.png()
+      : master.jpeg({ quality: 90 })
+    ).toBuffer({ resolveWithObject: true });
+
+    // A master made private by the watermark step stays where it is
+    const extension = lossless ? 'png' : 'jpg';
+    const masterKey =
+      media.masterKey ??
+      toPublicKey(media.uploadKey ?? media.key).replace(
+        /(\.\w+)$/,
+        `_master.${extension}`
+      );
+    await context.storeDerivative({
+      kind: DerivativeKind.MASTER,
+      key: masterKey,
+      body: buffer,
+      contentType: `image/${info.format}`,
+      width: info.width,
+      height: info.height,
+    });
+    media.masterKey = masterKey;
+    if (!isPrivateKey(masterKey)) {
+      media.url = this.storage.getPublicUrl(masterKey);
+    }
+    context.setMaster(buffer);
+    this.logger.log(`Sanitized master uploaded: ${masterKey}`);
+
+    // An original shared with an identical upload is left to that upload
+    if (!isPrivateKey(media.key) && !media.uploadKey) {
+      await this.makeOriginalPrivate(context, image);
+    }
+  }
+
+  /**
+   * Moves an original stored before originals were kept private out of
+   * public delivery.
+   */
+  private async makeOriginalPrivate(
+    context: ProcessingContext,
+    image: Buffer
+  ): Promise<void> {
+    const { media } = context;
+    const publicKey = media.key;
+    const privateKey = toPrivateKey(publicKey);
+
+    await this.storage.putObject(privateKey, image, {
+      contentType: media.mimetype ?? undefined,
+    });
+    await this.usageService.recordObject({
+      userId: media.uploadedBy,
+      mediaId: media.id,
+      mediaType: media.type,
+      kind: UsageKind.ORIGINAL,
+      key: privateKey,
+      bytes: image.length,
+    });
+    media.key = privateKey;
+    await context.manager.update(Media, media.id, { key: privateKey });
+
+    await this.storage.deleteObject(publicKey);
+    await this.usageService.removeKey(publicKey);
+    this.logger.log(`Moved original ${publicKey} to ${privateKey}`);
+  }
+}
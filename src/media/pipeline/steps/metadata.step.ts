@@ -0,0 +1,105 @@
+// src/media/pipeline/steps/metadata.step.ts
+
+import * as exifParser from 'exif-parser';
+import sharp from 'sharp';
+import { Injectable } from '@nestjs/common';
+import { LoggerService } from 'src/logger/logger.service';
+import { SettingsService } from 'src/settings/settings.service';
+import { ProcessingContext, ProcessingStep } from '../processing-step';
+
+/**
+ * Extracts whitelisted EXIF metadata from the original image into the media's
+ * metadata. The GPS location is never part of it; it is only kept, in private
+ * columns, when the owner has opted in with the `keepLocation` setting.
+ */
+@Injectable()
+export class MetadataStep implements ProcessingStep {
+  readonly name = 'metadata';
+  readonly required = false;
+
+  constructor(
+    private readonly settingsService: SettingsService,
+    private readonly logger: LoggerService
+  ) {}
+
+  shouldRun({ media }: ProcessingContext): boolean {
+    return !media.isFlagged;
+  }
+
+  async run(context: ProcessingContext): Promise<void> {
+    const { media } = context;
+    const original = await context.getOriginal();
+    const imageMetadata = await this.extractImageMetadata(original);
+    media.metadata = { ...media.metadata, ...imageMetadata };
+
+    const { keepLocation } = await this.settingsService.getSettings(
+      media.uploadedBy
+    );
+    const location = keepLocation ? this.extractLocation(original) : null;
+    media.latitude = location?.latitude ?? null;
+    media.longitude = location?.longitude ?? null;
+
+    this.logger.log(`Image metadata extracted for mediaId: ${media.id}`);
+  }
+
+  /**
+   * Extracts metadata from an image using exif-parser. Width and height are
+   * those of the image once rotated upright.
+   */
+  private async extractImageMetadata(
+    buffer: Buffer
+  ): Promise<Record<string, any>> {
+    const { width, height, orientation, format } = await sharp(
+      buffer
+    ).metadata();
+    const upright =
+      orientation && orientation >= 5 // 90° or 270° rotations swap the axes
+        ? { width: height, height: width }
+        : { width, height };
+
+    try {
+      const parser = exifParser.create(buffer);
+      const result = parser.parse();
+
+      // Extract the whitelisted fields only
+      const tags = result.tags || {};
+      const metadata = {
+        ...upright,
+        format,
+        cameraMake: tags.Make,
+        cameraModel: tags.Model,
+        lensModel: tags.LensModel,
+        iso: tags.ISO,
+        exposureTime: tags.ExposureTime,
+        fNumber: tags.FNumber,
+        focalLength: tags.FocalLength,
+        creationDate: tags.DateTimeOriginal,
+      };
+      this.logger.log(`Extracted image metadata: ${JSON.stringify(metadata)}`);
+      return metadata;
+    } catch (exifError) {
+      this.logger.warn('EXIF parsing failed, falling back to Sharp');
+
+      const metadata = { ...upright, format };
+      this.logger.log(`Extracted image metadata: ${JSON.stringify(metadata)}`);
+      return metadata;
+    }
+  }
+
+  /**
+   * Reads the GPS position from an image's EXIF data, if it has one.
+   */
+  private extractLocation(
+    buffer: Buffer
+  ): { latitude: number; longitude: number } | null {
+    try {
+      const tags = exifParser.create(buffer).parse().tags || {};
+      const { GPSLatitude: latitude, GPSLongitude: longitude } = tags;
+      return typeof latitude === 'number' && typeof longitude === 'number'
+        ? { latitude, longitude }
+        : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,27 @@
+// src/media/pipeline/steps/moderation.step.ts
+
+import { Injectable } from '@nestjs/common';
+import { ContentModerator } from 'src/aws/content-moderator.service';
+import { ProcessingContext, ProcessingStep } from '../processing-step';
+
+/**
+ * Flags explicit images using Rekognition.
+ */
+@Injectable()
+export class ModerationStep implements ProcessingStep {
+  readonly name = 'moderation';
+  readonly required = true;
+
+  constructor(private readonly contentModerator: ContentModerator) {}
+
+  async run(context: ProcessingContext): Promise<void> {
+    const { media } = context;
+    const moderationResult = await this.contentModerator.moderateContent(
+      media.id,
+      context.sourceKey,
+      await context.getSource()
+    );
+    media.isFlagged =
+      typeof moderationResult === 'boolean' ? moderationResult : false;
+  }
+}
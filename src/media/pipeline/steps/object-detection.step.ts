@@ -0,0 +1,35 @@
+// src/media/pipeline/steps/object-detection.step.ts
+
+import { Injectable } from '@nestjs/common';
+import { ObjectDetector } from 'src/aws/object-detector.service';
+import { ProcessingContext, ProcessingStep } from '../processing-step';
+
+/**
+ * Adds the objects detected in an image to its tags.
+ */
+@Injectable()
+export class ObjectDetectionStep implements ProcessingStep {
+  readonly name = 'object-detection';
+  readonly required = false;
+
+  constructor(private readonly objectDetector: ObjectDetector) {}
+
+  shouldRun({ media }: ProcessingContext): boolean {
+    return !media.isFlagged;
+  }
+
+  async run(context: ProcessingContext): Promise<void> {
+    const { media } = context;
+    const detectedTags = await this.objectDetector.detectObjects(
+      context.sourceKey,
+      await context.getSource()
+    );
+    media.tags = Array.from(
+      new Set(
+        [...(media.tags ?? []), ...detectedTags]
+          .map(tag => tag.trim().toLowerCase())
+          .filter(tag => tag.length > 0)
+      )
+    );
+  }
+}
@@ -0,0 +1,58 @@
+// src/media/pipeline/steps/optimize.step.ts
+
+import sharp from 'sharp';
+import { Inject, Injectable } from '@nestjs/common';
+import { LoggerService } from 'src/logger/logger.service';
+import { StorageProvider } from 'src/aws/storage/storage.provider';
+import { DerivativeKind } from '../../../common/enums/derivative-kind.enum';
+import { DELIVERY_FORMATS } from '../../image-formats';
+import { ProcessingContext, ProcessingStep } from '../processing-step';
+
+/**
+ * Optimizes an image by compressing it into each delivery format (AVIF, WebP
+ * and a JPEG fallback), and updates the main URL.
+ */
+@Injectable()
+export class OptimizeStep implements ProcessingStep {
+  readonly name = 'optimize';
+  readonly required = false;
+
+  constructor(
+    @Inject('STORAGE') private readonly storage: StorageProvider,
+    private readonly logger: LoggerService
+  ) {}
+
+  shouldRun({ media }: ProcessingContext): boolean {
+    return !media.isFlagged;
+  }
+
+  async run(context: ProcessingContext): Promise<void> {
+    const key = context.baseKey;
+    this.logger.log(`Optimizing image for key: ${key}`);
+
+    const resized = sharp(await context.getSource()).resize({ width: 800 }); // Resize to a maximum width of 800px
+
+    for (const {
+      format,
+      extension,
+      contentType,
+      options,
+    } of DELIVERY_FORMATS) {
+      const { data: optimizedBuffer, info } = await resized
+        .clone()
+        .toFormat(format, options)
+        .toBuffer({ resolveWithObject: true });
+
+      await context.storeDerivative({
+        kind: DerivativeKind.OPTIMIZED,
+        key: key.replace(/(\.\w+)$/, `_optimized.${extension}`),
+        body: optimizedBuffer,
+        contentType,
+        width: info.width,
+        height: info.height,
+      });
+    }
+    context.media.url = this.storage.getPublicUrl(context.sourceKey);
+    this.logger.log(`Optimized image uploaded: ${context.media.url}`);
+  }
+}
@@ -0,0 +1,100 @@
+// src/media/pipeline/steps/placeholder.step.ts
+
+import sharp from 'sharp';
+import { Injectable } from '@nestjs/common';
+import { LoggerService } from 'src/logger/logger.service';
+import { encodeBlurhash } from '../../blurhash';
+import { ProcessingContext, ProcessingStep } from '../processing-step';
+
+const BLURHASH_SIZE = 32; // Longest edge sampled for the BlurHash
+const PALETTE_SIZE = 5;
+const PALETTE_SAMPLE_SIZE = 64;
+const MIN_COLOR_DISTANCE = 48; // Keeps palette colours visibly distinct
+
+/**
+ * Computes a BlurHash placeholder and a dominant colour palette, so clients
+ * can draw something while the image loads.
+ */
+@Injectable()
+export class PlaceholderStep implements ProcessingStep {
+  readonly name = 'placeholder';
+  readonly required = false;
+
+  constructor(private readonly logger: LoggerService) {}
+
+  shouldRun({ media }: ProcessingContext): boolean {
+    return !media.isFlagged;
+  }
+
+  async run(context: ProcessingContext): Promise<void> {
+    const { media } = context;
+    const image = sharp(await context.getSource())
+      .rotate() // Apply EXIF orientation
+      .removeAlpha();
+
+    const { data, info } = await image
+      .clone()
+      .resize(BLURHASH_SIZE, BLURHASH_SIZE, { fit: 'inside' })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    media.blurhash = encodeBlurhash(
+      data,
+      info.width,
+      info.height,
+      info.channels
+    );
+
+    const sample = await image
+      .clone()
+      .resize(PALETTE_SAMPLE_SIZE, PALETTE_SAMPLE_SIZE, { fit: 'inside' })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    media.palette = this.extractPalette(sample.data, sample.info.channels);
+    media.dominantColor = media.palette[0] ?? null;
+
+    this.logger.log(
+      `Placeholder computed for mediaId: ${media.id} (${media.blurhash}, ${media.dominantColor})`
+    );
+  }
+
+  /**
+   * Buckets pixels into a 16x16x16 colour cube and returns the average colour
+   * of the most populated buckets, most common first, as `#rrggbb`.
+   */
+  private extractPalette(pixels: Buffer, channels: number): string[] {
+    const buckets = new Map<number, { count: number; rgb: number[] }>();
+
+    for (let offset = 0; offset < pixels.length; offset += channels) {
+      const [r, g, b] = pixels.subarray(offset, offset + 3);
+      const index = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+      const bucket = buckets.get(index) ?? { count: 0, rgb: [0, 0, 0] };
+      bucket.count++;
+      bucket.rgb[0] += r;
+      bucket.rgb[1] += g;
+      bucket.rgb[2] += b;
+      buckets.set(index, bucket);
+    }
+
+    const palette: number[][] = [];
+    const ranked = [...buckets.values()].sort((a, b) => b.count - a.count);
+    for (const { count, rgb } of ranked) {
+      const color = rgb.map(sum => Math.round(sum / count));
+      const distinct = palette.every(
+        other =>
+          Math.hypot(...color.map((value, i) => value - other[i])) >=
+          MIN_COLOR_DISTANCE
+      );
+      if (distinct) {
+        palette.push(color);
+      }
+      if (palette.length === PALETTE_SIZE) {
+        break;
+      }
+    }
+
+    return palette.map(
+      color =>
+        `#${color.map(value => value.toString(16).padStart(2, '0')).join('')}`
+    );
+  }
+}
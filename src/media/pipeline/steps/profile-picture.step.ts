@@ -0,0 +1,31 @@
+// src/media/pipeline/steps/profile-picture.step.ts
+
+import { forwardRef, Inject, Injectable } from '@nestjs/common';
+import { MediaService } from '../../media.service';
+import { ProcessingContext, ProcessingStep } from '../processing-step';
+
+/**
+ * Tells the auth & user service about a new profile picture.
+ */
+@Injectable()
+export class ProfilePictureStep implements ProcessingStep {
+  readonly name = 'profile-picture';
+  readonly required = false;
+
+  constructor(
+    @Inject(forwardRef(() => MediaService))
+    private readonly mediaService: MediaService
+  ) {}
+
+  shouldRun({ media }: ProcessingContext): boolean {
+    return !media.isFlagged;
+  }
+
+  async run({ media, manager }: ProcessingContext): Promise<void> {
+    await this.mediaService.updateUserProfilePicture(
+      media.id,
+      media.uploadedBy,
+      manager
+    );
+  }
+}
@@ -0,0 +1,59 @@
+// src/media/pipeline/steps/responsive-images.step.ts
+
+import sharp from 'sharp';
+import { Injectable } from '@nestjs/common';
+import { LoggerService } from 'src/logger/logger.service';
+import { DerivativeKind } from '../../../common/enums/derivative-kind.enum';
+import { DELIVERY_FORMATS } from '../../image-formats';
+import { ProcessingContext, ProcessingStep } from '../processing-step';
+
+const RESOLUTIONS = [320, 640, 1024, 1600];
+
+/**
+ * Generates responsive images at different resolutions, in each delivery
+ * format.
+ */
+@Injectable()
+export class ResponsiveImagesStep implements ProcessingStep {
+  readonly name = 'responsive-images';
+  readonly required = false;
+
+  constructor(private readonly logger: LoggerService) {}
+
+  shouldRun({ media }: ProcessingContext): boolean {
+    return !media.isFlagged;
+  }
+
+  async run(context: ProcessingContext): Promise<void> {
+    const key = context.baseKey;
+    this.logger.log(`Generating responsive images for key: ${key}`);
+
+    const imageBuffer = await context.getSource();
+
+    for (const width of RESOLUTIONS) {
+      const resized = sharp(imageBuffer).resize({ width });
+
+      for (const {
+        format,
+        extension,
+        contentType,
+        options,
+      } of DELIVERY_FORMATS) {
+        const { data: resizedBuffer, info } = await resized
+          .clone()
+          .toFormat(format, options)
+          .toBuffer({ resolveWithObject: true });
+
+        const derivative = await context.storeDerivative({
+          kind: DerivativeKind.RESPONSIVE,
+          key: key.replace(/(\.\w+)$/, `_${width}px.${extension}`),
+          body: resizedBuffer,
+          contentType,
+          width: info.width,
+          height: info.height,
+        });
+        this.logger.log(`Uploaded responsive image: ${derivative.url}`);
+      }
+    }
+  }
+}
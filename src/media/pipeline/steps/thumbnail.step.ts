@@ -0,0 +1,63 @@
+// src/media/pipeline/steps/thumbnail.step.ts
+
+import sharp from 'sharp';
+import { Inject, Injectable } from '@nestjs/common';
+import { LoggerService } from 'src/logger/logger.service';
+import { StorageProvider } from 'src/aws/storage/storage.provider';
+import { DerivativeKind } from '../../../common/enums/derivative-kind.enum';
+import { MediaType } from '../../../common/enums/media-type.enum';
+import { SmartCropper } from '../../smart-cropper.service';
+import { ProcessingContext, ProcessingStep } from '../processing-step';
+
+/**
+ * Generates a thumbnail for an image and uploads it to storage. Avatars and
+ * album covers are cropped around faces (or the client's crop rectangle).
+ */
+@Injectable()
+export class ThumbnailStep implements ProcessingStep {
+  readonly name = 'thumbnail';
+  readonly required = false;
+
+  constructor(
+    @Inject('STORAGE') private readonly storage: StorageProvider,
+    private readonly smartCropper: SmartCropper,
+    private readonly logger: LoggerService
+  ) {}
+
+  shouldRun({ media }: ProcessingContext): boolean {
+    return !media.isFlagged;
+  }
+
+  async run(context: ProcessingContext): Promise<void> {
+    const key = context.baseKey;
+    this.logger.log(`Generating thumbnail for key: ${key}`);
+
+    const source = await context.getSource();
+    const image =
+      context.media.type === MediaType.IMAGE
+        ? sharp(source).resize(200, 200) // Resize to 200x200 pixels
+        : await this.smartCropper.crop(
+            source,
+            200,
+            200,
+            context.media.crop ?? undefined
+          );
+    const { data: thumbnail, info } = await image.toBuffer({
+      resolveWithObject: true,
+    });
+
+    const thumbnailKey = key.replace(/(\.\w+)$/, '_thumbnail$1');
+    await context.storeDerivative({
+      kind: DerivativeKind.THUMBNAIL,
+      key: thumbnailKey,
+      body: thumbnail,
+      contentType: `image/${info.format}`,
+      width: info.width,
+      height: info.height,
+    });
+    context.media.thumbnailUrl = this.storage.getPublicUrl(thumbnailKey);
+    this.logger.log(
+      `Thumbnail generated and uploaded: ${context.media.thumbnailUrl}`
+    );
+  }
+}
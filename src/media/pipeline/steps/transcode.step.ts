@@ -0,0 +1,25 @@
+// src/media/pipeline/steps/transcode.step.ts
+
+import { Injectable } from '@nestjs/common';
+import { VideoTranscoder } from 'src/aws/video-transcoder.service';
+import { ProcessingContext, ProcessingStep } from '../processing-step';
+
+/**
+ * Transcodes a video into HLS. When the transcoding provider runs the job in
+ * the background, the media stays in the transcoding state until it completes.
+ */
+@Injectable()
+export class TranscodeStep implements ProcessingStep {
+  readonly name = 'transcode';
+  readonly required = true;
+
+  constructor(private readonly videoTranscoder: VideoTranscoder) {}
+
+  async run(context: ProcessingContext): Promise<void> {
+    const transcoded = await this.videoTranscoder.transcodeVideo(
+      context.media,
+      await context.getOriginalPath()
+    );
+    context.awaitingTranscoding = !transcoded;
+  }
+}
@@ -0,0 +1,47 @@
+// src/media/pipeline/steps/video-moderation.step.ts
+
+import { Inject, Injectable } from '@nestjs/common';
+import AWS from 'aws-sdk';
+import { ContentModerator } from 'src/aws/content-moderator.service';
+import { LoggerService } from 'src/logger/logger.service';
+import { ProcessingContext, ProcessingStep } from '../processing-step';
+
+/**
+ * Starts an asynchronous Rekognition moderation job for a video. The result
+ * arrives on the video moderation queue.
+ */
+@Injectable()
+export class VideoModerationStep implements ProcessingStep {
+  readonly name = 'video-moderation';
+  readonly required = true;
+
+  constructor(
+    private readonly contentModerator: ContentModerator,
+    @Inject('DYNAMODB') private readonly dynamoDB: AWS.DynamoDB.DocumentClient,
+    private readonly logger: LoggerService
+  ) {}
+
+  async run({ media }: ProcessingContext): Promise<void> {
+    const jobId = await this.contentModerator.moderateVideo(
+      media.id,
+      media.key
+    );
+    this.logger.log(
+      `Video moderation started for ${media.id}, Job ID: ${jobId}`
+    );
+
+    await this.dynamoDB
+      .put({
+        TableName: 'video_moderation_jobs',
+        Item: {
+          mediaId: media.id,
+          jobId,
+          key: media.key,
+          status: 'PENDING',
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        },
+      })
+      .promise();
+  }
+}
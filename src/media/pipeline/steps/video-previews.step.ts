@@ -0,0 +1,136 @@
+// src/media/pipeline/steps/video-previews.step.ts
+
+import * as fsp from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { Inject, Injectable } from '@nestjs/common';
+import { LoggerService } from 'src/logger/logger.service';
+import { StorageProvider, toPublicKey } from 'src/aws/storage/storage.provider';
+import { WatermarksService } from 'src/watermarks/watermarks.service';
+import { probeVideo } from 'src/common/ffmpeg';
+import { DerivativeKind } from '../../../common/enums/derivative-kind.enum';
+import { VideoPreviewer } from '../../video-previewer.service';
+import { Watermarker } from '../../watermarker.service';
+import { ProcessingContext, ProcessingStep } from '../processing-step';
+
+/**
+ * Generates the stills and previews shown before a video plays: a poster
+ * frame (watermarked if a profile applies) with a thumbnail cut from it, a
+ * muted preview loop as MP4 and animated WebP, and a storyboard sprite with a
+ * WebVTT thumbnails track for scrubbing.
+ */
+@Injectable()
+export class VideoPreviewsStep implements ProcessingStep {
+  readonly name = 'video-previews';
+  readonly required = false;
+
+  constructor(
+    private readonly videoPreviewer: VideoPreviewer,
+    private readonly watermarksService: WatermarksService,
+    private readonly watermarker: Watermarker,
+    @Inject('STORAGE') private readonly storage: StorageProvider,
+    private readonly logger: LoggerService
+  ) {}
+
+  shouldRun({ media }: ProcessingContext): boolean {
+    return !media.isFlagged;
+  }
+
+  async run(context: ProcessingContext): Promise<void> {
+    const { media } = context;
+    this.logger.log(`Generating video previews for mediaId: ${media.id}`);
+    const workDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'previews-'));
+
+    try {
+      const inputPath = await context.getOriginalPath();
+      const video = await probeVideo(inputPath);
+      const baseKey = toPublicKey(media.uploadKey ?? media.key).replace(
+        /\.\w+$/,
+        ''
+      );
+
+      // 🖼️ Poster frame, and the grid thumbnail cut from it
+      let poster = await this.videoPreviewer.extractPoster(
+        inputPath,
+        video,
+        workDir
+      );
+      const profile = await this.watermarksService.resolveProfile(
+        media.uploadedBy,
+        media.album?.visibility
+      );
+      if (profile) {
+        poster = await this.watermarker.apply(poster, profile);
+      }
+      const posterInfo = await sharp(poster).metadata();
+      await context.storeDerivative({
+        kind: DerivativeKind.POSTER,
+        key: `${baseKey}_poster.jpg`,
+        body: poster,
+        contentType: 'image/jpeg',
+        width: posterInfo.width,
+        height: posterInfo.height,
+      });
+
+      const { data: thumbnail, info } = await sharp(poster)
+        .resize(200, 200) // Resize to 200x200 pixels
+        .jpeg()
+        .toBuffer({ resolveWithObject: true });
+      const thumbnailKey = `${baseKey}_thumbnail.jpg`;
+      await context.storeDerivative({
+        kind: DerivativeKind.THUMBNAIL,
+        key: thumbnailKey,
+        body: thumbnail,
+        contentType: 'image/jpeg',
+        width: info.width,
+        height: info.height,
+      });
+      media.thumbnailUrl = this.storage.getPublicUrl(thumbnailKey);
+
+      // 🔁 Muted preview loop
+      for (const format of ['mp4', 'webp'] as const) {
+        await context.storeDerivative({
+          kind: DerivativeKind.PREVIEW,
+          key: `${baseKey}_preview.${format}`,
+          body: await this.videoPreviewer.renderPreview(
+            inputPath,
+            video,
+            workDir,
+            format
+          ),
+          contentType: format === 'mp4' ? 'video/mp4' : 'image/webp',
+        });
+      }
+
+      // 🎞️ Storyboard sprite and its thumbnails track
+      const spriteKey = `${baseKey}_storyboard.jpg`;
+      const storyboard = await this.videoPreviewer.renderStoryboard(
+        inputPath,
+        video,
+        workDir,
+        path.posix.basename(spriteKey)
+      );
+      await context.storeDerivative({
+        kind: DerivativeKind.STORYBOARD,
+        key: spriteKey,
+        body: storyboard.sprite,
+        contentType: 'image/jpeg',
+        width: storyboard.width,
+        height: storyboard.height,
+      });
+      await context.storeDerivative({
+        kind: DerivativeKind.STORYBOARD,
+        key: `${baseKey}_storyboard.vtt`,
+        body: Buffer.from(storyboard.track),
+        contentType: 'text/vtt',
+      });
+
+      this.logger.log(
+        `Video previews generated for mediaId: ${media.id} (thumbnail: ${media.thumbnailUrl})`
+      );
+    } finally {
+      await fsp.rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,114 @@
+// src/media/pipeline/steps/watermark.step.ts
+
+import { Inject, Injectable } from '@nestjs/common';
+import { LoggerService } from 'src/logger/logger.service';
+import {
+  isPrivateKey,
+  StorageProvider,
+  toPrivateKey,
+  toPublicKey,
+} from 'src/aws/storage/storage.provider';
+import { WatermarksService } from 'src/watermarks/watermarks.service';
+import { DerivativeKind } from '../../../common/enums/derivative-kind.enum';
+import { MASTERED_IMAGE_MIMETYPES } from '../../media-constraints';
+import { DerivativeStore } from '../../derivative-store.service';
+import { Watermarker } from '../../watermarker.service';
+import { ProcessingContext, ProcessingStep } from '../processing-step';
+
+/**
+ * Applies the watermark profile that covers the media (its owner's, or its
+ * album visibility's) to the master. The watermarked copy becomes the public
+ * URL and the source of every later derivative, and the clean master moves
+ * under the private prefix so the branding cannot be bypassed. Once no
+ * profile applies any more, the master is made public again.
+ */
+@Injectable()
+export class WatermarkStep implements ProcessingStep {
+  readonly name = 'watermark';
+  readonly required = false;
+
+  constructor(
+    private readonly watermarksService: WatermarksService,
+    private readonly watermarker: Watermarker,
+    private readonly derivativeStore: DerivativeStore,
+    @Inject('STORAGE') private readonly storage: StorageProvider,
+    private readonly logger: LoggerService
+  ) {}
+
+  shouldRun({ media }: ProcessingContext): boolean {
+    return (
+      !media.isFlagged &&
+      MASTERED_IMAGE_MIMETYPES.includes(media.mimetype ?? '')
+    );
+  }
+
+  async run(context: ProcessingContext): Promise<void> {
+    const { media } = context;
+    const profile = await this.watermarksService.resolveProfile(
+      media.uploadedBy,
+      media.album?.visibility
+    );
+
+    if (!profile) {
+      if (media.masterKey && isPrivateKey(media.masterKey)) {
+        await this.moveMaster(context, toPublicKey(media.masterKey));
+        media.url = this.storage.getPublicUrl(context.sourceKey);
+      }
+      if (media.watermarkKey) {
+        // The profile that applied earlier has been removed or deactivated
+        media.watermarkKey = null;
+        media.url = this.storage.getPublicUrl(context.sourceKey);
+      }
+      return;
+    }
+
+    this.logger.log(
+      `Applying watermark profile ${profile.id} to media: ${media.id}`
+    );
+    const masterKey = toPublicKey(media.masterKey ?? media.key);
+    const watermarked = await this.watermarker.apply(
+      await context.getMaster(),
+      profile
+    );
+    const watermarkKey = masterKey.replace(/(\.\w+)$/, '_watermarked$1');
+    await context.storeDerivative({
+      kind: DerivativeKind.WATERMARKED,
+      key: watermarkKey,
+      body: watermarked,
+      contentType: masterKey.endsWith('.png') ? 'image/png' : 'image/jpeg',
+    });
+
+    media.watermarkKey = watermarkKey;
+    media.url = this.storage.getPublicUrl(watermarkKey);
+    context.setSource(watermarked);
+    this.logger.log(`Watermarked image uploaded: ${watermarkKey}`);
+
+    if (media.masterKey && !isPrivateKey(media.masterKey)) {
+      await this.moveMaster(context, toPrivateKey(media.masterKey));
+    }
+  }
+
+  /**
+   * Stores the clean master under a new key and deletes the old copy.
+   */
+  private async moveMaster(
+    context: ProcessingContext,
+    targetKey: string
+  ): Promise<void> {
+    const { media } = context;
+    const currentKey = media.masterKey!;
+
+    const current = await this.derivativeStore.findByKey(currentKey);
+    await context.storeDerivative({
+      kind: DerivativeKind.MASTER,
+      key: targetKey,
+      body: await context.getMaster(),
+      contentType: currentKey.endsWith('.png') ? 'image/png' : 'image/jpeg',
+      width: current?.width ?? undefined,
+      height: current?.height ?? undefined,
+    });
+    media.masterKey = targetKey;
+    await this.derivativeStore.remove(currentKey);
+    this.logger.log(`Moved master of media ${media.id} to: ${targetKey}`);
+  }
+}
@@ -0,0 +1,227 @@
+// src/media/remote-media-fetcher.service.ts
+
+import * as dns from 'dns';
+import * as https from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { Readable } from 'stream';
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { LoggerService } from 'src/logger/logger.service';
+import { detectMimetype, FILE_SIGNATURE_LENGTH } from './file-signature';
+
+const MAX_REDIRECTS = 3;
+const FETCH_TIMEOUT_MS =
+  parseInt(process.env.MEDIA_IMPORT_TIMEOUT_MS!, 10) || 30000;
+
+// Addresses a server-side fetch must never reach (loopback, private, link-local, ...)
+const BLOCKED_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([address, prefix]) =>
+  BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv4')
+);
+[
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([address, prefix]) =>
+  BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv6')
+);
+
+/**
+ * Returns whether an IP address is loopback, private or otherwise internal.
+ */
+export function isBlockedAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4');
+  }
+  const family = isIP(address);
+  return (
+    !family || BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')
+  );
+}
+
+/**
+ * DNS lookup that refuses internal addresses. Used as the socket lookup so the
+ * address that was checked is the address that is connected to.
+ */
+export const safeLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) {
+      return callback(err, []);
+    }
+    const blocked = addresses.find(entry => isBlockedAddress(entry.address));
+    if (blocked || !addresses.length) {
+      return callback(
+        new Error(`Refusing to connect to internal address for ${hostname}`),
+        []
+      );
+    }
+    return options.all
+      ? callback(null, addresses)
+      : callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * A file fetched from a remote URL.
+ */
+export interface RemoteMedia {
+  body: Buffer;
+  mimetype: string;
+}
+
+@Injectable()
+export class RemoteMediaFetcher {
+  private readonly agent = new https.Agent({ lookup: safeLookup });
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly logger: LoggerService
+  ) {}
+
+  /**
+   * Downloads a file over HTTPS, following a limited number of redirects,
+   * refusing internal addresses and aborting past `maxBytes` or the timeout.
+   * The mimetype is detected from the downloaded bytes.
+   */
+  async fetch(url: string, maxBytes: number): Promise<RemoteMedia> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+    try {
+      let target = this.parseUrl(url);
+
+      for (let redirects = 0; ; redirects++) {
+        const response = await this.httpService.axiosRef.get<Readable>(
+          target.toString(),
+          {
+            responseType: 'stream',
+            httpsAgent: this.agent,
+            maxRedirects: 0,
+            timeout: FETCH_TIMEOUT_MS,
+            signal: controller.signal,
+            validateStatus: () => true,
+          }
+        );
+
+        if (response.status >= 300 && response.status < 400) {
+          response.data.destroy();
+          if (redirects >= MAX_REDIRECTS || !response.headers.location) {
+            throw new BadRequestException('Too many redirects');
+          }
+          target = this.parseUrl(
+            new URL(response.headers.location, target).toString()
+          );
+          continue;
+        }
+
+        if (response.status !== 200) {
+          response.data.destroy();
+          throw new BadRequestException(
+            `Remote server responded with status ${response.status}`
+          );
+        }
+
+        const declaredLength = parseInt(
+          response.headers['content-length'] ?? '',
+          10
+        );
+        if (declaredLength > maxBytes) {
+          response.data.destroy();
+          throw new BadRequestException(
+            `Remote file exceeds the ${maxBytes} byte limit`
+          );
+        }
+
+        const body = await this.readLimited(response.data, maxBytes);
+        const mimetype = detectMimetype(
+          body.subarray(0, FILE_SIGNATURE_LENGTH)
+        );
+        if (!mimetype) {
+          throw new BadRequestException('Remote file type is not supported');
+        }
+
+        this.logger.log(
+          `Fetched ${body.length} bytes (${mimetype}) from ${target.host}`
+        );
+        return { body, mimetype };
+      }
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      this.logger.warn(
+        `Failed to fetch remote media from ${url}: ${(error as Error).message}`
+      );
+      throw new BadRequestException('Failed to fetch remote media');
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Accepts only HTTPS URLs on the default port without credentials.
+   */
+  private parseUrl(url: string): URL {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new BadRequestException('Invalid URL');
+    }
+
+    if (parsed.protocol !== 'https:') {
+      throw new BadRequestException('Only HTTPS URLs can be imported');
+    }
+    if (parsed.username || parsed.password) {
+      throw new BadRequestException('URLs with credentials are not allowed');
+    }
+    if (parsed.port && parsed.port !== '443') {
+      throw new BadRequestException('Only the default HTTPS port is allowed');
+    }
+    if (isIP(parsed.hostname.replace(/^\[|\]$/g, ''))) {
+      if (isBlockedAddress(parsed.hostname.replace(/^\[|\]$/g, ''))) {
+        throw new BadRequestException('URL points to an internal address');
+      }
+    }
+    return parsed;
+  }
+
+  /**
+   * Buffers a stream, aborting once it grows past `maxBytes`.
+   */
+  private async readLimited(
+    stream: Readable,
+    maxBytes: number
+  ): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of stream) {
+      size += chunk.length;
+      if (size > maxBytes) {
+        stream.destroy();
+        throw new BadRequestException(
+          `Remote file exceeds the ${maxBytes} byte limit`
+        );
+      }
+      chunks.push(chunk);
+    }
+
+    return Buffer.concat(chunks);
+  }
+}
@@ -0,0 +1,156 @@
+// src/media/smart-cropper.service.ts
+
+import sharp from 'sharp';
+import { Inject, Injectable } from '@nestjs/common';
+import { LoggerService } from 'src/logger/logger.service';
+import {
+  FaceBox,
+  FaceDetectorProvider,
+} from 'src/aws/faces/face-detector.provider';
+
+/**
+ * A crop rectangle chosen by the client. Coordinates are fractions of the
+ * (EXIF-oriented) image's width and height, measured from the top-left corner.
+ */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Region {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const FACE_PADDING = 1.8; // Region size relative to the faces, leaving room for hair and shoulders
+
+/**
+ * Crops images to a target size without cutting off the subject. Uses the
+ * client's crop rectangle if there is one, then detected faces, then sharp's
+ * attention (saliency) strategy.
+ */
+@Injectable()
+export class SmartCropper {
+  constructor(
+    @Inject('FACE_DETECTOR')
+    private readonly faceDetector: FaceDetectorProvider,
+    private readonly logger: LoggerService
+  ) {}
+
+  async crop(
+    image: Buffer,
+    width: number,
+    height: number,
+    crop?: CropRect | null
+  ): Promise<sharp.Sharp> {
+    // Work on the oriented image so that crop and face coordinates line up
+    const oriented = await sharp(image).rotate().toBuffer();
+    const { width: imageWidth = 0, height: imageHeight = 0 } = await sharp(
+      oriented
+    ).metadata();
+
+    if (crop) {
+      return sharp(oriented)
+        .extract(this.toRegion(crop, imageWidth, imageHeight))
+        .resize(width, height, { fit: 'cover' });
+    }
+
+    const faces = await this.detectFaces(oriented);
+    if (faces.length) {
+      const region = this.frameFaces(
+        faces,
+        imageWidth,
+        imageHeight,
+        width / height
+      );
+      return sharp(oriented)
+        .extract(region)
+        .resize(width, height, { fit: 'cover' });
+    }
+
+    return sharp(oriented).resize(width, height, {
+      fit: 'cover',
+      position: sharp.strategy.attention,
+    });
+  }
+
+  private async detectFaces(image: Buffer): Promise<FaceBox[]> {
+    try {
+      return await this.faceDetector.detectFaces(image);
+    } catch (error) {
+      this.logger.warn(
+        `Face detection failed, falling back to attention cropping: ${
+          (error as Error).message
+        }`
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Converts a fractional crop rectangle to pixels within the image.
+   */
+  private toRegion(crop: CropRect, imageWidth: number, imageHeight: number) {
+    const left = Math.min(Math.round(crop.x * imageWidth), imageWidth - 1);
+    const top = Math.min(Math.round(crop.y * imageHeight), imageHeight - 1);
+    return {
+      left,
+      top,
+      width: Math.max(
+        1,
+        Math.min(Math.round(crop.width * imageWidth), imageWidth - left)
+      ),
+      height: Math.max(
+        1,
+        Math.min(Math.round(crop.height * imageHeight), imageHeight - top)
+      ),
+    };
+  }
+
+  /**
+   * Finds the region with the target aspect ratio that is centred on the
+   * detected faces, padded around them and kept within the image.
+   */
+  private frameFaces(
+    faces: FaceBox[],
+    imageWidth: number,
+    imageHeight: number,
+    aspectRatio: number
+  ): Region {
+    const left = Math.min(...faces.map(face => face.left)) * imageWidth;
+    const top = Math.min(...faces.map(face => face.top)) * imageHeight;
+    const right =
+      Math.max(...faces.map(face => face.left + face.width)) * imageWidth;
+    const bottom =
+      Math.max(...faces.map(face => face.top + face.height)) * imageHeight;
+
+    let regionWidth = Math.max(
+      (right - left) * FACE_PADDING,
+      (bottom - top) * FACE_PADDING * aspectRatio
+    );
+    let regionHeight = regionWidth / aspectRatio;
+    if (regionWidth > imageWidth) {
+      regionWidth = imageWidth;
+      regionHeight = regionWidth / aspectRatio;
+    }
+    if (regionHeight > imageHeight) {
+      regionHeight = imageHeight;
+      regionWidth = regionHeight * aspectRatio;
+    }
+
+    const width = Math.max(1, Math.floor(regionWidth));
+    const height = Math.max(1, Math.floor(regionHeight));
+    const clamp = (value: number, max: number) =>
+      Math.round(Math.min(Math.max(value, 0), max));
+    return {
+      left: clamp((left + right - width) / 2, imageWidth - width),
+      top: clamp((top + bottom - height) / 2, imageHeight - height),
+      width,
+      height,
+    };
+  }
+}
@@ -0,0 +1,155 @@
+// src/media/upload-reaper.service.spec.ts
+
+import { ConfigService } from '@nestjs/config';
+import { IsNull } from 'typeorm';
+import { MediaStatus } from '../common/enums/media-status.enum';
+import { Media } from './media.entity';
+import { UploadReaper } from './upload-reaper.service';
+
+describe('UploadReaper', () => {
+  let mediaRepository: {
+    find: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+  };
+  let storage: {
+    headObject: jest.Mock;
+    deleteObject: jest.Mock;
+    listParts: jest.Mock;
+    abortMultipartUpload: jest.Mock;
+  };
+  let reaper: UploadReaper;
+
+  const pending = (overrides: Partial<Media> = {}) =>
+    ({
+      id: 'media-1',
+      key: 'image/upload.jpg',
+      status: MediaStatus.PENDING_UPLOAD,
+      multipartUploadId: null,
+      ...overrides,
+    } as Media);
+
+  beforeEach(() => {
+    mediaRepository = {
+      find: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      delete: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+    storage = {
+      headObject: jest.fn().mockResolvedValue(null),
+      deleteObject: jest.fn().mockResolvedValue(undefined),
+      listParts: jest.fn().mockResolvedValue([]),
+      abortMultipartUpload: jest.fn().mockResolvedValue(undefined),
+    };
+    reaper = new UploadReaper(
+      mediaRepository as any,
+      storage as any,
+      new ConfigService({
+        uploads: { pendingTtlMinutes: 60, reapBatchSize: 10 },
+      }),
+      { log: jest.fn(), warn: jest.fn(), error: jest.fn() } as any
+    );
+  });
+
+  it('only looks at pending uploads past the TTL that are not clips', async () => {
+    const ttl = 60 * 60 * 1000;
+    const before = Date.now();
+    await reaper.reapPendingUploads();
+    const after = Date.now();
+
+    const { where } = mediaRepository.find.mock.calls[0][0];
+    expect(where.status).toBe(MediaStatus.PENDING_UPLOAD);
+    expect(where.clipOfId).toEqual(IsNull());
+    const cutoff: Date = where.createdAt.value;
+    expect(cutoff.getTime()).toBeGreaterThanOrEqual(before - ttl);
+    expect(cutoff.getTime()).toBeLessThanOrEqual(after - ttl);
+  });
+
+  it('claims an entry only while it is still pending', async () => {
+    mediaRepository.find.mockResolvedValueOnce([pending()]);
+
+    await reaper.reapPendingUploads();
+
+    expect(mediaRepository.update).toHaveBeenCalledWith(
+      { id: 'media-1', status: MediaStatus.PENDING_UPLOAD },
+      { status: MediaStatus.FAILED, failureReason: 'Upload abandoned' }
+    );
+  });
+
+  it('leaves entries alone when the upload completed after they were listed', async () => {
+    mediaRepository.find.mockResolvedValueOnce([pending()]);
+    mediaRepository.update.mockResolvedValueOnce({ affected: 0 });
+
+    const result = await reaper.reapPendingUploads();
+
+    expect(storage.headObject).not.toHaveBeenCalled();
+    expect(storage.deleteObject).not.toHaveBeenCalled();
+    expect(mediaRepository.delete).not.toHaveBeenCalled();
+    expect(result.media).toBe(0);
+  });
+
+  it('deletes partial uploads and the claimed entry', async () => {
+    mediaRepository.find.mockResolvedValueOnce([
+      pending(),
+      pending({
+        id: 'media-2',
+        key: 'video/upload.mp4',
+        multipartUploadId: 'upload-1',
+      }),
+    ]);
+    storage.headObject.mockImplementation(async (key: string) =>
+      key === 'image/upload.jpg' ? { key, size: 100 } : null
+    );
+    storage.listParts.mockResolvedValue([
+      { partNumber: 1, etag: 'a', size: 300 },
+      { partNumber: 2, etag: 'b', size: 200 },
+    ]);
+
+    const result = await reaper.reapPendingUploads();
+
+    expect(storage.deleteObject).toHaveBeenCalledWith('image/upload.jpg');
+    expect(storage.abortMultipartUpload).toHaveBeenCalledWith(
+      'video/upload.mp4',
+      'upload-1'
+    );
+    expect(mediaRepository.delete).toHaveBeenCalledWith('media-1');
+    expect(mediaRepository.delete).toHaveBeenCalledWith('media-2');
+    expect(result).toEqual({
+      media: 2,
+      objects: 1,
+      multipartUploads: 1,
+      bytes: 600,
+    });
+  });
+
+  it('keeps reaping after an entry fails to clean up', async () => {
+    mediaRepository.find.mockResolvedValueOnce([
+      pending(),
+      pending({ id: 'media-2', key: 'image/other.jpg' }),
+    ]);
+    storage.headObject.mockRejectedValueOnce(new Error('Storage unavailable'));
+
+    const result = await reaper.reapPendingUploads();
+
+    // The failed entry stays claimed as failed, so it is not listed again
+    expect(mediaRepository.delete).not.toHaveBeenCalledWith('media-1');
+    expect(mediaRepository.delete).toHaveBeenCalledWith('media-2');
+    expect(result.media).toBe(1);
+  });
+
+  it('skips a scheduled run while the previous one is still going', async () => {
+    let finish!: () => void;
+    mediaRepository.find.mockReturnValueOnce(
+      new Promise(resolve => {
+        finish = () => resolve([]);
+      })
+    );
+
+    const first = reaper.handleCron();
+    await reaper.handleCron();
+    finish();
+    await first;
+
+    expect(mediaRepository.find).toHaveBeenCalledTimes(1);
+  });
+});
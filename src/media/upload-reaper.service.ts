@@ -0,0 +1,150 @@
+// src/media/upload-reaper.service.ts
+
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { IsNull, LessThan, Repository } from 'typeorm';
+import { Media } from './media.entity';
+import { MediaStatus } from '../common/enums/media-status.enum';
+import { LoggerService } from 'src/logger/logger.service';
+import { StorageProvider } from 'src/aws/storage/storage.provider';
+
+/**
+ * Summary of a reaper run.
+ */
+export interface ReapResult {
+  media: number;
+  objects: number;
+  multipartUploads: number;
+  bytes: number;
+}
+
+@Injectable()
+export class UploadReaper {
+  private running = false;
+
+  constructor(
+    @InjectRepository(Media)
+    private mediaRepository: Repository<Media>,
+    @Inject('STORAGE') private readonly storage: StorageProvider,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService
+  ) {}
+
+  /**
+   * Scheduled cleanup of uploads that were never completed.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async handleCron(): Promise<void> {
+    if (this.running) {
+      this.logger.warn('Upload reaper is still running, skipping this run');
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.reapPendingUploads();
+    } catch (error) {
+      this.logger.error('Failed to reap pending uploads', (error as any).stack);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Removes media entries still awaiting upload after the configured TTL,
+   * along with any partially uploaded objects and multipart uploads. Clips
+   * also wait as pending uploads until a worker cuts them; they are left
+   * alone however long the queue is.
+   */
+  async reapPendingUploads(): Promise<ReapResult> {
+    const ttlMinutes = this.configService.get<number>(
+      'uploads.pendingTtlMinutes'
+    )!;
+    const batchSize = this.configService.get<number>('uploads.reapBatchSize')!;
+    const cutoff = new Date(Date.now() - ttlMinutes * 60 * 1000);
+    const result: ReapResult = {
+      media: 0,
+      objects: 0,
+      multipartUploads: 0,
+      bytes: 0,
+    };
+
+    let failed = 0;
+    for (;;) {
+      const batch = await this.mediaRepository.find({
+        where: {
+          status: MediaStatus.PENDING_UPLOAD,
+          clipOfId: IsNull(),
+          createdAt: LessThan(cutoff),
+        },
+        order: { createdAt: 'ASC' },
+        take: batchSize,
+      });
+      if (!batch.length) {
+        break;
+      }
+
+      for (const media of batch) {
+        try {
+          await this.reapMedia(media, result);
+        } catch (error) {
+          failed++;
+          this.logger.error(
+            `Failed to reap pending upload for mediaId: ${media.id}`,
+            (error as any).stack
+          );
+        }
+      }
+    }
+
+    if (result.media || failed) {
+      this.logger.log(
+        `Reaped ${result.media} pending uploads older than ${ttlMinutes} minutes: ` +
+          `${result.objects} objects and ${result.multipartUploads} multipart uploads ` +
+          `(${result.bytes} bytes) removed, ${failed} failed`
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Marks a pending entry as failed, deletes whatever was uploaded for it and
+   * then the entry itself. Entries that fail to clean up stay marked as failed
+   * with the reason, so they are not picked up again.
+   */
+  private async reapMedia(media: Media, result: ReapResult): Promise<void> {
+    // Claim the entry, unless the client completed the upload in the meantime
+    const { affected } = await this.mediaRepository.update(
+      { id: media.id, status: MediaStatus.PENDING_UPLOAD },
+      { status: MediaStatus.FAILED, failureReason: 'Upload abandoned' }
+    );
+    if (!affected) {
+      return;
+    }
+
+    if (media.multipartUploadId) {
+      const parts = await this.storage.listParts(
+        media.key,
+        media.multipartUploadId
+      );
+      await this.storage.abortMultipartUpload(
+        media.key,
+        media.multipartUploadId
+      );
+      result.multipartUploads++;
+      result.bytes += parts.reduce((sum, part) => sum + (part.size ?? 0), 0);
+    }
+
+    const object = await this.storage.headObject(media.key);
+    if (object) {
+      await this.storage.deleteObject(media.key);
+      result.objects++;
+      result.bytes += object.size;
+    }
+
+    await this.mediaRepository.delete(media.id);
+    result.media++;
+  }
+}
@@ -0,0 +1,197 @@
+// src/media/upload-validator.service.ts
+
+import * as fs from 'fs/promises';
+import { ffmpeg } from 'src/common/ffmpeg';
+import sharp from 'sharp';
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  StorageProvider,
+  StoredObjectInfo,
+} from 'src/aws/storage/storage.provider';
+import { LoggerService } from 'src/logger/logger.service';
+import { MediaType } from '../common/enums/media-type.enum';
+import { Media } from './media.entity';
+import { ALLOWED_MIMETYPES, MEDIA_LIMITS } from './media-constraints';
+import {
+  detectMimetype,
+  FILE_SIGNATURE_LENGTH,
+  isCompatibleMimetype,
+} from './file-signature';
+
+/**
+ * Raised when uploaded bytes fail validation. The message is recorded as the
+ * media's failure reason.
+ */
+export class UploadRejectedError extends Error {}
+
+/**
+ * Facts established about an upload while validating it.
+ */
+export interface UploadInspection {
+  size: number;
+  mimetype: string;
+  width?: number;
+  height?: number;
+  durationSeconds?: number;
+}
+
+@Injectable()
+export class UploadValidator {
+  constructor(
+    @Inject('STORAGE') private readonly storage: StorageProvider,
+    private readonly logger: LoggerService
+  ) {}
+
+  /**
+   * Checks what landed in storage for a media entry before it is downloaded:
+   * the object must exist at the media's key and be within the size limit for
+   * its type.
+   * @throws UploadRejectedError if the upload is not acceptable.
+   */
+  async checkObject(media: Media, key: string): Promise<StoredObjectInfo> {
+    this.logger.log(`Validating upload for mediaId: ${media.id}`);
+
+    if (key !== media.key) {
+      throw new UploadRejectedError(
+        `Key ${key} does not belong to media ${media.id}`
+      );
+    }
+
+    const info = await this.storage.headObject(key);
+    if (!info) {
+      throw new UploadRejectedError(`No object found at ${key}`);
+    }
+
+    const limits = MEDIA_LIMITS[media.type];
+    if (info.size === 0) {
+      throw new UploadRejectedError('Uploaded file is empty');
+    }
+    if (info.size > limits.maxBytes) {
+      throw new UploadRejectedError(
+        `File size ${info.size} bytes exceeds the ${limits.maxBytes} byte limit`
+      );
+    }
+
+    return info;
+  }
+
+  /**
+   * Checks the downloaded copy of an upload: its magic bytes must match the
+   * declared type, and it must be within the dimension and duration limits
+   * for its type.
+   * @throws UploadRejectedError if the upload is not acceptable.
+   */
+  async inspect(
+    media: Media,
+    info: StoredObjectInfo,
+    localPath: string
+  ): Promise<UploadInspection> {
+    const limits = MEDIA_LIMITS[media.type];
+    const mimetype = detectMimetype(await this.readHeader(localPath));
+    if (!mimetype || !ALLOWED_MIMETYPES[media.type].includes(mimetype)) {
+      throw new UploadRejectedError(
+        `File content (${mimetype ?? 'unknown'}) is not allowed for ${
+          media.type
+        }`
+      );
+    }
+    if (media.mimetype && !isCompatibleMimetype(media.mimetype, mimetype)) {
+      throw new UploadRejectedError(
+        `File content (${mimetype}) does not match declared type ${media.mimetype}`
+      );
+    }
+
+    const inspection: UploadInspection = { size: info.size, mimetype };
+    const dimensions =
+      media.type === MediaType.VIDEO
+        ? await this.probeVideo(localPath)
+        : await this.probeImage(localPath);
+    Object.assign(inspection, dimensions);
+
+    const longestEdge = Math.max(inspection.width ?? 0, inspection.height ?? 0);
+    if (!longestEdge) {
+      throw new UploadRejectedError('Could not determine media dimensions');
+    }
+    if (longestEdge > limits.maxDimension) {
+      throw new UploadRejectedError(
+        `Dimensions ${inspection.width}x${inspection.height} exceed the ${limits.maxDimension}px limit`
+      );
+    }
+    if (
+      limits.maxDurationSeconds &&
+      (inspection.durationSeconds ?? 0) > limits.maxDurationSeconds
+    ) {
+      throw new UploadRejectedError(
+        `Duration ${inspection.durationSeconds}s exceeds the ${limits.maxDurationSeconds}s limit`
+      );
+    }
+
+    this.logger.log(
+      `Upload validated for mediaId: ${media.id} (${JSON.stringify(
+        inspection
+      )})`
+    );
+    return inspection;
+  }
+
+  /**
+   * Reads the bytes that identify the file type.
+   */
+  private async readHeader(localPath: string): Promise<Buffer> {
+    const file = await fs.open(localPath);
+    try {
+      const header = Buffer.alloc(FILE_SIGNATURE_LENGTH);
+      const { bytesRead } = await file.read(
+        header,
+        0,
+        FILE_SIGNATURE_LENGTH,
+        0
+      );
+      return header.subarray(0, bytesRead);
+    } finally {
+      await file.close();
+    }
+  }
+
+  /**
+   * Reads image dimensions with sharp.
+   */
+  private async probeImage(
+    localPath: string
+  ): Promise<Pick<UploadInspection, 'width' | 'height'>> {
+    try {
+      const { width, height } = await sharp(localPath).metadata();
+      return { width, height };
+    } catch (error) {
+      throw new UploadRejectedError('File is not a readable image');
+    }
+  }
+
+  /**
+   * Reads video dimensions and duration with FFprobe.
+   */
+  private probeVideo(
+    localPath: string
+  ): Promise<Pick<UploadInspection, 'width' | 'height' | 'durationSeconds'>> {
+    return new Promise((resolve, reject) => {
+      ffmpeg.ffprobe(localPath, (err, data) => {
+        if (err) {
+          return reject(
+            new UploadRejectedError('File is not a readable video')
+          );
+        }
+
+        const videoStream = data.streams.find(s => s.codec_type === 'video');
+        if (!videoStream) {
+          return reject(new UploadRejectedError('File has no video stream'));
+        }
+
+        resolve({
+          width: videoStream.width,
+          height: videoStream.height,
+          durationSeconds: Number(data.format.duration) || 0,
+        });
+      });
+    });
+  }
+}
@@ -0,0 +1,102 @@
+// src/media/video-clipper.service.ts
+
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import { Inject, Injectable } from '@nestjs/common';
+import { ffmpeg } from 'src/common/ffmpeg';
+import { LoggerService } from 'src/logger/logger.service';
+import { StorageProvider } from 'src/aws/storage/storage.provider';
+import { CropRect } from './smart-cropper.service';
+
+/**
+ * The part of a source video a clip is cut from.
+ */
+export interface ClipSpec {
+  start: number; // in seconds
+  end: number; // in seconds
+  crop?: CropRect | null; // Fractions of the displayed frame
+  mute?: boolean;
+}
+
+/**
+ * Cuts clips out of stored videos with ffmpeg.
+ */
+@Injectable()
+export class VideoClipper {
+  constructor(
+    @Inject('STORAGE') private readonly storage: StorageProvider,
+    private readonly logger: LoggerService
+  ) {}
+
+  /**
+   * Cuts a clip out of the video stored under `sourceKey` and stores it as an
+   * H.264/AAC MP4 under `key`. The clip is re-encoded so it starts exactly
+   * at `start` rather than on the nearest keyframe.
+   */
+  async clip(sourceKey: string, key: string, spec: ClipSpec): Promise<void> {
+    this.logger.log(
+      `Cutting clip ${spec.start}s-${spec.end}s of ${sourceKey} into ${key}`
+    );
+    const workDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'clip-'));
+
+    try {
+      const inputPath = path.join(workDir, 'input');
+      await pipeline(
+        this.storage.getObjectStream(sourceKey),
+        fs.createWriteStream(inputPath)
+      );
+
+      const outputPath = path.join(workDir, 'clip.mp4');
+      await this.encode(inputPath, outputPath, spec);
+
+      await this.storage.putObject(key, await fsp.readFile(outputPath), {
+        contentType: 'video/mp4',
+      });
+    } finally {
+      await fsp.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private encode(
+    inputPath: string,
+    outputPath: string,
+    { start, end, crop, mute }: ClipSpec
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const command = ffmpeg(inputPath)
+        .seekInput(start)
+        .duration(end - start)
+        .videoCodec('libx264')
+        .outputOptions([
+          '-preset veryfast',
+          '-crf 20',
+          '-pix_fmt yuv420p',
+          '-movflags +faststart',
+        ]);
+
+      if (crop) {
+        // Crops the displayed (already rotated) frame to even dimensions
+        command.videoFilters(
+          `crop=trunc(iw*${crop.width}/2)*2:trunc(ih*${crop.height}/2)*2:trunc(iw*${crop.x}):trunc(ih*${crop.y})`
+        );
+      }
+
+      if (mute) {
+        command.noAudio();
+      } else {
+        command.audioCodec('aac').audioBitrate(128);
+      }
+
+      command
+        .output(outputPath)
+        .on('end', () => resolve())
+        .on('error', error =>
+          reject(new Error(`ffmpeg failed to cut clip: ${error.message}`))
+        )
+        .run();
+    });
+  }
+}
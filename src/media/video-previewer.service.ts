@@ -0,0 +1,234 @@
+// src/media/video-previewer.service.ts
+
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import sharp from 'sharp';
+import { Injectable } from '@nestjs/common';
+import { FfmpegCommand } from 'fluent-ffmpeg';
+import { ffmpeg, VideoProbe } from 'src/common/ffmpeg';
+
+const POSTER_CANDIDATES = [0.1, 0.25, 0.4, 0.55, 0.7, 0.85]; // Positions sampled for the poster, as fractions of the duration
+const MIN_POSTER_BRIGHTNESS = 24; // Mean 0-255 level below which a frame counts as black
+const MIN_POSTER_CONTRAST = 8; // Standard deviation below which a frame counts as blank
+const POSTER_MAX_WIDTH = 1280;
+
+const PREVIEW_CLIPS = 4; // Short clips spread across the video make up the preview loop
+const PREVIEW_CLIP_SECONDS = 1;
+const PREVIEW_WIDTH = 320;
+
+const STORYBOARD_TILE_WIDTH = 160;
+const STORYBOARD_COLUMNS = 10;
+const STORYBOARD_MAX_TILES = 100;
+const STORYBOARD_MIN_INTERVAL = 1; // Seconds between storyboard tiles, at least
+
+/**
+ * A storyboard sprite sheet and the WebVTT thumbnails track that maps each
+ * stretch of the video to its tile.
+ */
+export interface Storyboard {
+  sprite: Buffer;
+  width: number;
+  height: number;
+  track: string;
+}
+
+/**
+ * Renders still and animated previews of videos with ffmpeg. Every method
+ * reads a local copy of the video and writes its intermediate files to the
+ * given working directory.
+ */
+@Injectable()
+export class VideoPreviewer {
+  /**
+   * Picks a representative poster frame, encoded as JPEG. Frames are sampled
+   * across the video and the most detailed one that is neither black nor
+   * blank wins, so fades and title cards are avoided.
+   */
+  async extractPoster(
+    inputPath: string,
+    video: VideoProbe,
+    workDir: string
+  ): Promise<Buffer> {
+    const width = Math.min(video.width, POSTER_MAX_WIDTH);
+    const candidates: { frame: Buffer; score: number; usable: boolean }[] = [];
+
+    for (const [index, position] of POSTER_CANDIDATES.entries()) {
+      const outputPath = path.join(workDir, `poster_${index}.jpg`);
+      await this.run(
+        ffmpeg(inputPath)
+          .seekInput(video.duration * position)
+          .frames(1)
+          .outputOptions([`-vf scale=${even(width)}:-2`, '-q:v 2'])
+          .output(outputPath)
+      ).catch(() => undefined); // Seeking past the last keyframe yields no frame
+      const frame = await fsp.readFile(outputPath).catch(() => null);
+      if (!frame) {
+        continue;
+      }
+
+      const { channels, entropy } = await sharp(frame).stats();
+      const colour = channels.slice(0, 3);
+      const brightness =
+        colour.reduce((sum, channel) => sum + channel.mean, 0) / colour.length;
+      const contrast = Math.max(...colour.map(channel => channel.stdev));
+      candidates.push({
+        frame,
+        score: entropy,
+        usable:
+          brightness >= MIN_POSTER_BRIGHTNESS &&
+          contrast >= MIN_POSTER_CONTRAST,
+      });
+    }
+
+    if (!candidates.length) {
+      // Very short videos: fall back to the first frame
+      const outputPath = path.join(workDir, 'poster.jpg');
+      await this.run(
+        ffmpeg(inputPath)
+          .frames(1)
+          .outputOptions([`-vf scale=${even(width)}:-2`, '-q:v 2'])
+          .output(outputPath)
+      );
+      return fsp.readFile(outputPath);
+    }
+
+    const pool = candidates.some(candidate => candidate.usable)
+      ? candidates.filter(candidate => candidate.usable)
+      : candidates;
+    return pool.reduce((best, candidate) =>
+      candidate.score > best.score ? candidate : best
+    ).frame;
+  }
+
+  /**
+   * Renders a short, muted loop made of clips spread across the video, as an
+   * MP4 or an animated WebP.
+   */
+  async renderPreview(
+    inputPath: string,
+    video: VideoProbe,
+    workDir: string,
+    format: 'mp4' | 'webp'
+  ): Promise<Buffer> {
+    const outputPath = path.join(workDir, `preview.${format}`);
+    const interval = (video.duration / PREVIEW_CLIPS).toFixed(3);
+    const filters = [
+      ...(Number(interval) > PREVIEW_CLIP_SECONDS
+        ? [
+            `select='lt(mod(t,${interval}),${PREVIEW_CLIP_SECONDS})'`,
+            'setpts=N/FRAME_RATE/TB',
+          ]
+        : []),
+      `fps=${format === 'mp4' ? 24 : 12}`,
+      `scale=${even(Math.min(video.width, PREVIEW_WIDTH))}:-2`,
+    ];
+
+    const command = ffmpeg(inputPath)
+      .noAudio()
+      .outputOptions([
+        `-vf ${filters.join(',')}`,
+        `-t ${PREVIEW_CLIPS * PREVIEW_CLIP_SECONDS}`,
+      ]);
+    if (format === 'mp4') {
+      command
+        .videoCodec('libx264')
+        .outputOptions([
+          '-preset veryfast',
+          '-crf 28',
+          '-pix_fmt yuv420p',
+          '-movflags +faststart',
+        ]);
+    } else {
+      command.videoCodec('libwebp').outputOptions(['-loop 0', '-q:v 60']);
+    }
+
+    await this.run(command.output(outputPath));
+    return fsp.readFile(outputPath);
+  }
+
+  /**
+   * Renders a JPEG sprite sheet of evenly spaced tiles and a WebVTT track
+   * pointing each cue at its tile with a `#xywh=` fragment. The track refers
+   * to the sprite by `spriteName`, relative to the track's own URL.
+   */
+  async renderStoryboard(
+    inputPath: string,
+    video: VideoProbe,
+    workDir: string,
+    spriteName: string
+  ): Promise<Storyboard> {
+    const interval = Math.max(
+      STORYBOARD_MIN_INTERVAL,
+      video.duration / STORYBOARD_MAX_TILES
+    );
+    const tiles = Math.max(1, Math.ceil(video.duration / interval));
+    const columns = Math.min(tiles, STORYBOARD_COLUMNS);
+    const rows = Math.ceil(tiles / columns);
+    const tileWidth = STORYBOARD_TILE_WIDTH;
+    const tileHeight = even((tileWidth * video.height) / video.width);
+
+    const outputPath = path.join(workDir, 'storyboard.jpg');
+    await this.run(
+      ffmpeg(inputPath)
+        .noAudio()
+        .frames(1)
+        .outputOptions([
+          `-vf fps=1/${interval.toFixed(
+            3
+          )},scale=${tileWidth}:${tileHeight},tile=${columns}x${rows}`,
+          '-q:v 4',
+        ])
+        .output(outputPath)
+    );
+
+    const cues = Array.from({ length: tiles }, (_, index) => {
+      const start = index * interval;
+      const end = Math.min(video.duration, start + interval);
+      const x = (index % columns) * tileWidth;
+      const y = Math.floor(index / columns) * tileHeight;
+      return [
+        `${timestamp(start)} --> ${timestamp(end)}`,
+        `${spriteName}#xywh=${x},${y},${tileWidth},${tileHeight}`,
+      ].join('\n');
+    });
+
+    return {
+      sprite: await fsp.readFile(outputPath),
+      width: columns * tileWidth,
+      height: rows * tileHeight,
+      track: ['WEBVTT', ...cues, ''].join('\n\n'),
+    };
+  }
+
+  private run(command: FfmpegCommand): Promise<void> {
+    return new Promise((resolve, reject) => {
+      command
+        .on('end', () => resolve())
+        .on('error', error =>
+          reject(new Error(`ffmpeg failed: ${error.message}`))
+        )
+        .run();
+    });
+  }
+}
+
+/**
+ * Rounds to the nearest even number of pixels, as H.264 requires.
+ */
+function even(value: number): number {
+  return Math.max(2, Math.round(value / 2) * 2);
+}
+
+/**
+ * Formats seconds as a WebVTT timestamp, e.g. `00:01:02.500`.
+ */
+function timestamp(seconds: number): string {
+  const millis = Math.round(seconds * 1000);
+  const hours = Math.floor(millis / 3_600_000);
+  const minutes = Math.floor(millis / 60_000) % 60;
+  const secs = (millis % 60_000) / 1000;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(
+    2,
+    '0'
+  )}:${secs.toFixed(3).padStart(6, '0')}`;
+}
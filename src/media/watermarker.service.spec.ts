@@ -0,0 +1,70 @@
+// src/media/watermarker.service.spec.ts
+
+import sharp from 'sharp';
+import { WatermarkPosition } from '../common/enums/watermark-position.enum';
+import { WatermarkType } from '../common/enums/watermark-type.enum';
+import { WatermarkProfile } from 'src/watermarks/watermark-profile.entity';
+import { Watermarker } from './watermarker.service';
+
+describe('Watermarker', () => {
+  const solid = (width: number, height: number, format: 'png' | 'jpeg') => {
+    const image = sharp({
+      create: {
+        width,
+        height,
+        channels: 4,
+        background: { r: 0, g: 0, b: 255, alpha: 1 },
+      },
+    });
+    return (format === 'png' ? image.png() : image.jpeg()).toBuffer();
+  };
+
+  let overlay: Buffer;
+  let watermarker: Watermarker;
+
+  const profile = (overrides: Partial<WatermarkProfile> = {}) =>
+    ({
+      type: WatermarkType.IMAGE,
+      overlayMediaId: 'overlay-1',
+      position: WatermarkPosition.BOTTOM_RIGHT,
+      opacity: 0.5,
+      scale: 0.2,
+      ...overrides,
+    } as WatermarkProfile);
+
+  beforeAll(async () => {
+    overlay = await solid(400, 100, 'png');
+  });
+
+  beforeEach(() => {
+    watermarker = new Watermarker(
+      {
+        findOne: jest.fn().mockResolvedValue({ key: 'image/logo.png' }),
+      } as any,
+      { getObject: jest.fn().mockResolvedValue(overlay) } as any
+    );
+  });
+
+  it('keeps the size and format of the image', async () => {
+    const image = await solid(640, 480, 'jpeg');
+
+    const result = await sharp(
+      await watermarker.apply(image, profile())
+    ).metadata();
+
+    expect(result).toMatchObject({ width: 640, height: 480, format: 'jpeg' });
+  });
+
+  it.each([1, 0.99])(
+    'fits an overlay at scale %p within the image margins',
+    async scale => {
+      const image = await solid(500, 300, 'png');
+
+      const result = await sharp(
+        await watermarker.apply(image, profile({ scale }))
+      ).metadata();
+
+      expect(result).toMatchObject({ width: 500, height: 300, format: 'png' });
+    }
+  );
+});
@@ -0,0 +1,115 @@
+// src/media/watermarker.service.ts
+
+import sharp from 'sharp';
+import { Inject, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Media } from './media.entity';
+import { StorageProvider } from 'src/aws/storage/storage.provider';
+import { WatermarkProfile } from 'src/watermarks/watermark-profile.entity';
+import { WatermarkType } from '../common/enums/watermark-type.enum';
+import { WatermarkPosition } from '../common/enums/watermark-position.enum';
+
+const GRAVITY: Record<WatermarkPosition, string> = {
+  [WatermarkPosition.TOP_LEFT]: 'northwest',
+  [WatermarkPosition.TOP]: 'north',
+  [WatermarkPosition.TOP_RIGHT]: 'northeast',
+  [WatermarkPosition.LEFT]: 'west',
+  [WatermarkPosition.CENTER]: 'centre',
+  [WatermarkPosition.RIGHT]: 'east',
+  [WatermarkPosition.BOTTOM_LEFT]: 'southwest',
+  [WatermarkPosition.BOTTOM]: 'south',
+  [WatermarkPosition.BOTTOM_RIGHT]: 'southeast',
+};
+
+const MARGIN = 0.02; // Gap between the overlay and the image edges, as a fraction of the image width
+const TEXT_DPI = 600; // Text is rendered large and scaled down to the overlay width
+
+/**
+ * Composites watermark profiles onto images.
+ */
+@Injectable()
+export class Watermarker {
+  constructor(
+    @InjectRepository(Media)
+    private mediaRepository: Repository<Media>,
+    @Inject('STORAGE') private readonly storage: StorageProvider
+  ) {}
+
+  /**
+   * Returns the image with the profile's overlay applied, encoded as JPEG, or
+   * PNG when the image is a PNG. Metadata is not carried over.
+   */
+  async apply(image: Buffer, profile: WatermarkProfile): Promise<Buffer> {
+    const { width = 0, height = 0, format } = await sharp(image).metadata();
+    const margin = Math.round(width * MARGIN);
+
+    const overlay = await sharp(await this.renderOverlay(profile))
+      .resize({
+        // The overlay and its margins must fit within the image
+        width: Math.max(
+          1,
+          Math.min(Math.round(width * profile.scale), width - 2 * margin)
+        ),
+        height: Math.max(1, height - 2 * margin),
+        fit: 'inside',
+      })
+      .ensureAlpha()
+      .composite([
+        {
+          // Scale the overlay's alpha channel by the profile's opacity
+          input: Buffer.from([0, 0, 0, Math.round(255 * profile.opacity)]),
+          raw: { width: 1, height: 1, channels: 4 },
+          tile: true,
+          blend: 'dest-in',
+        },
+      ])
+      .png()
+      .toBuffer();
+    const padded = await sharp(overlay)
+      .extend({
+        top: margin,
+        bottom: margin,
+        left: margin,
+        right: margin,
+        background: { r: 0, g: 0, b: 0, alpha: 0 },
+      })
+      .toBuffer();
+
+    const watermarked = sharp(image).composite([
+      { input: padded, gravity: GRAVITY[profile.position] },
+    ]);
+    return (
+      format === 'png' ? watermarked.png() : watermarked.jpeg({ quality: 90 })
+    ).toBuffer();
+  }
+
+  /**
+   * Renders the profile's overlay at its natural size, with transparency.
+   */
+  private async renderOverlay(profile: WatermarkProfile): Promise<Buffer> {
+    if (profile.type === WatermarkType.TEXT) {
+      const text = (profile.text ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+      return sharp({
+        text: {
+          text: `<span foreground="${profile.color}">${text}</span>`,
+          dpi: TEXT_DPI,
+          rgba: true,
+        },
+      })
+        .png()
+        .toBuffer();
+    }
+
+    const overlay = await this.mediaRepository.findOne({
+      where: { id: profile.overlayMediaId! },
+    });
+    if (!overlay) {
+      throw new Error(`Watermark overlay not found: ${profile.overlayMediaId}`);
+    }
+    return this.storage.getObject(overlay.masterKey ?? overlay.key);
+  }
+}
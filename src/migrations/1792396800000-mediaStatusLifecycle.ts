@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class MediaStatusLifecycle1792396800000 implements MigrationInterface {
+    name = 'MediaStatusLifecycle1792396800000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TYPE "public"."media_status_enum" AS ENUM('pending_upload', 'uploaded', 'processing', 'transcoding', 'ready', 'failed')`);
+        await queryRunner.query(`ALTER TABLE "media" ADD "status" "public"."media_status_enum" NOT NULL DEFAULT 'pending_upload'`);
+        await queryRunner.query(`ALTER TABLE "media" ADD "failureReason" text`);
+        await queryRunner.query(`UPDATE "media" SET "status" = 'ready'`);
+        await queryRunner.query(`CREATE INDEX "IDX_c730c2d67f271a372c39a07b7e" ON "media" ("status") `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "public"."IDX_c730c2d67f271a372c39a07b7e"`);
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "failureReason"`);
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "status"`);
+        await queryRunner.query(`DROP TYPE "public"."media_status_enum"`);
+    }
+
+}
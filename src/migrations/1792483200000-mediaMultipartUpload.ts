@@ -0,0 +1,14 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class MediaMultipartUpload1792483200000 implements MigrationInterface {
+    name = 'MediaMultipartUpload1792483200000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media" ADD "multipartUploadId" character varying`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "multipartUploadId"`);
+    }
+
+}
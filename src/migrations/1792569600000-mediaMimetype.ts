@@ -0,0 +1,14 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class MediaMimetype1792569600000 implements MigrationInterface {
+    name = 'MediaMimetype1792569600000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media" ADD "mimetype" character varying`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "mimetype"`);
+    }
+
+}
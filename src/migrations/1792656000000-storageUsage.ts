@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class StorageUsage1792656000000 implements MigrationInterface {
+    name = 'StorageUsage1792656000000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TYPE "public"."storage_usage_mediatype_enum" AS ENUM('profile_picture', 'album_cover_image', 'image', 'video')`);
+        await queryRunner.query(`CREATE TYPE "public"."storage_usage_kind_enum" AS ENUM('original', 'derivative')`);
+        await queryRunner.query(`CREATE TABLE "storage_usage" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "userId" character varying NOT NULL, "mediaId" uuid NOT NULL, "mediaType" "public"."storage_usage_mediatype_enum" NOT NULL, "kind" "public"."storage_usage_kind_enum" NOT NULL, "key" character varying NOT NULL, "bytes" bigint NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_5e60edf1b84a87e10076a78d8b0" UNIQUE ("key"), CONSTRAINT "PK_02eff454f57326ac1ec363e9fe5" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE INDEX "IDX_89f686985666edf13973553d08" ON "storage_usage" ("userId") `);
+        await queryRunner.query(`CREATE INDEX "IDX_c065fc9441bde18eda43078199" ON "storage_usage" ("mediaId") `);
+        await queryRunner.query(`CREATE INDEX "IDX_STORAGE_USAGE_USER_TYPE" ON "storage_usage" ("userId", "mediaType") `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "public"."IDX_STORAGE_USAGE_USER_TYPE"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_c065fc9441bde18eda43078199"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_89f686985666edf13973553d08"`);
+        await queryRunner.query(`DROP TABLE "storage_usage"`);
+        await queryRunner.query(`DROP TYPE "public"."storage_usage_kind_enum"`);
+        await queryRunner.query(`DROP TYPE "public"."storage_usage_mediatype_enum"`);
+    }
+
+}
@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class MediaContentHash1792742400000 implements MigrationInterface {
+    name = 'MediaContentHash1792742400000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media" ADD "contentHash" character varying(64)`);
+        await queryRunner.query(`ALTER TABLE "media" ADD "duplicateOfId" uuid`);
+        await queryRunner.query(`CREATE INDEX "IDX_1e38c6030f9bc6c0f2a953ffbb" ON "media" ("duplicateOfId") `);
+        await queryRunner.query(`CREATE INDEX "IDX_MEDIA_UPLOADER_HASH" ON "media" ("uploadedBy", "contentHash") `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "public"."IDX_MEDIA_UPLOADER_HASH"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_1e38c6030f9bc6c0f2a953ffbb"`);
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "duplicateOfId"`);
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "contentHash"`);
+    }
+
+}
@@ -0,0 +1,14 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class MediaMasterKey1792828800000 implements MigrationInterface {
+    name = 'MediaMasterKey1792828800000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media" ADD "masterKey" character varying`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "masterKey"`);
+    }
+
+}
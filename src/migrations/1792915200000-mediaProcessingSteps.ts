@@ -0,0 +1,14 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class MediaProcessingSteps1792915200000 implements MigrationInterface {
+    name = 'MediaProcessingSteps1792915200000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media" ADD "processingSteps" json`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "processingSteps"`);
+    }
+
+}
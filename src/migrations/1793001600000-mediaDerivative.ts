@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class MediaDerivative1793001600000 implements MigrationInterface {
+    name = 'MediaDerivative1793001600000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TYPE "public"."media_derivative_kind_enum" AS ENUM('master', 'thumbnail', 'optimized', 'responsive')`);
+        await queryRunner.query(`CREATE TABLE "media_derivative" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "mediaId" uuid NOT NULL, "kind" "public"."media_derivative_kind_enum" NOT NULL, "key" character varying NOT NULL, "url" character varying NOT NULL, "format" character varying NOT NULL, "width" integer, "height" integer, "bytes" bigint NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_11a90b41dabe41cfda5c1648f76" UNIQUE ("key"), CONSTRAINT "PK_2e3976b44c97bcfcc041e1d9b30" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE INDEX "IDX_0e05afbc001f8bfcf38639783d" ON "media_derivative" ("mediaId") `);
+        await queryRunner.query(`ALTER TABLE "media_derivative" ADD CONSTRAINT "FK_0e05afbc001f8bfcf38639783db" FOREIGN KEY ("mediaId") REFERENCES "media"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media_derivative" DROP CONSTRAINT "FK_0e05afbc001f8bfcf38639783db"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_0e05afbc001f8bfcf38639783d"`);
+        await queryRunner.query(`DROP TABLE "media_derivative"`);
+        await queryRunner.query(`DROP TYPE "public"."media_derivative_kind_enum"`);
+    }
+
+}
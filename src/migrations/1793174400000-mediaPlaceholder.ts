@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class MediaPlaceholder1793174400000 implements MigrationInterface {
+    name = 'MediaPlaceholder1793174400000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media" ADD "blurhash" character varying(64)`);
+        await queryRunner.query(`ALTER TABLE "media" ADD "dominantColor" character varying(7)`);
+        await queryRunner.query(`ALTER TABLE "media" ADD "palette" text array`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "palette"`);
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "dominantColor"`);
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "blurhash"`);
+    }
+
+}
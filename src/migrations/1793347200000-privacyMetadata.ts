@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class PrivacyMetadata1793347200000 implements MigrationInterface {
+    name = 'PrivacyMetadata1793347200000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TABLE "user_settings" ("userId" character varying NOT NULL, "keepLocation" boolean NOT NULL DEFAULT false, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_986a2b6d3c05eb4091bb8066f78" PRIMARY KEY ("userId"))`);
+        await queryRunner.query(`ALTER TABLE "media" ADD "latitude" double precision`);
+        await queryRunner.query(`ALTER TABLE "media" ADD "longitude" double precision`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "longitude"`);
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "latitude"`);
+        await queryRunner.query(`DROP TABLE "user_settings"`);
+    }
+
+}
@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class WatermarkProfile1793433600000 implements MigrationInterface {
+    name = 'WatermarkProfile1793433600000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TYPE "public"."watermark_profile_type_enum" AS ENUM('image', 'text')`);
+        await queryRunner.query(`CREATE TYPE "public"."watermark_profile_position_enum" AS ENUM('top_left', 'top', 'top_right', 'left', 'center', 'right', 'bottom_left', 'bottom', 'bottom_right')`);
+        await queryRunner.query(`CREATE TYPE "public"."watermark_profile_visibility_enum" AS ENUM('private', 'connections_only', 'network_only', 'everyone')`);
+        await queryRunner.query(`CREATE TABLE "watermark_profile" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "name" character varying(255) NOT NULL, "type" "public"."watermark_profile_type_enum" NOT NULL, "text" character varying(255), "color" character varying(7) NOT NULL DEFAULT '#ffffff', "overlayMediaId" uuid, "position" "public"."watermark_profile_position_enum" NOT NULL DEFAULT 'bottom_right', "opacity" real NOT NULL DEFAULT '0.5', "scale" real NOT NULL DEFAULT '0.2', "visibility" "public"."watermark_profile_visibility_enum", "userId" character varying, "isActive" boolean NOT NULL DEFAULT true, "createdBy" character varying NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_b252f50fa680f12b330006e18b5" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE INDEX "IDX_b19242d2617ba669b00e18b182" ON "watermark_profile" ("visibility") `);
+        await queryRunner.query(`CREATE INDEX "IDX_a776daa74b3fb2b64393baaf0c" ON "watermark_profile" ("userId") `);
+        await queryRunner.query(`ALTER TABLE "media" ADD "watermarkKey" character varying`);
+        await queryRunner.query(`ALTER TYPE "public"."media_derivative_kind_enum" RENAME TO "media_derivative_kind_enum_old"`);
+        await queryRunner.query(`CREATE TYPE "public"."media_derivative_kind_enum" AS ENUM('master', 'thumbnail', 'optimized', 'responsive', 'rendition', 'watermarked')`);
+        await queryRunner.query(`ALTER TABLE "media_derivative" ALTER COLUMN "kind" TYPE "public"."media_derivative_kind_enum" USING "kind"::"text"::"public"."media_derivative_kind_enum"`);
+        await queryRunner.query(`DROP TYPE "public"."media_derivative_kind_enum_old"`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TYPE "public"."media_derivative_kind_enum_old" AS ENUM('master', 'thumbnail', 'optimized', 'responsive', 'rendition')`);
+        await queryRunner.query(`ALTER TABLE "media_derivative" ALTER COLUMN "kind" TYPE "public"."media_derivative_kind_enum_old" USING "kind"::"text"::"public"."media_derivative_kind_enum_old"`);
+        await queryRunner.query(`DROP TYPE "public"."media_derivative_kind_enum"`);
+        await queryRunner.query(`ALTER TYPE "public"."media_derivative_kind_enum_old" RENAME TO "media_derivative_kind_enum"`);
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "watermarkKey"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_a776daa74b3fb2b64393baaf0c"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_b19242d2617ba669b00e18b182"`);
+        await queryRunner.query(`DROP TABLE "watermark_profile"`);
+        await queryRunner.query(`DROP TYPE "public"."watermark_profile_visibility_enum"`);
+        await queryRunner.query(`DROP TYPE "public"."watermark_profile_position_enum"`);
+        await queryRunner.query(`DROP TYPE "public"."watermark_profile_type_enum"`);
+    }
+
+}
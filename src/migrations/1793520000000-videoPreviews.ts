@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class VideoPreviews1793520000000 implements MigrationInterface {
+    name = 'VideoPreviews1793520000000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TYPE "public"."media_derivative_kind_enum" RENAME TO "media_derivative_kind_enum_old"`);
+        await queryRunner.query(`CREATE TYPE "public"."media_derivative_kind_enum" AS ENUM('master', 'thumbnail', 'optimized', 'responsive', 'rendition', 'watermarked', 'poster', 'preview', 'storyboard')`);
+        await queryRunner.query(`ALTER TABLE "media_derivative" ALTER COLUMN "kind" TYPE "public"."media_derivative_kind_enum" USING "kind"::"text"::"public"."media_derivative_kind_enum"`);
+        await queryRunner.query(`DROP TYPE "public"."media_derivative_kind_enum_old"`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TYPE "public"."media_derivative_kind_enum_old" AS ENUM('master', 'thumbnail', 'optimized', 'responsive', 'rendition', 'watermarked')`);
+        await queryRunner.query(`ALTER TABLE "media_derivative" ALTER COLUMN "kind" TYPE "public"."media_derivative_kind_enum_old" USING "kind"::"text"::"public"."media_derivative_kind_enum_old"`);
+        await queryRunner.query(`DROP TYPE "public"."media_derivative_kind_enum"`);
+        await queryRunner.query(`ALTER TYPE "public"."media_derivative_kind_enum_old" RENAME TO "media_derivative_kind_enum"`);
+    }
+
+}
@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class TranscodingProfile1793692800000 implements MigrationInterface {
+    name = 'TranscodingProfile1793692800000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media" ADD "transcodingProfile" character varying`);
+        await queryRunner.query(`ALTER TABLE "media" ADD "renditions" json`);
+        await queryRunner.query(`ALTER TABLE "media" ADD "dashUrl" character varying`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "dashUrl"`);
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "renditions"`);
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "transcodingProfile"`);
+    }
+
+}
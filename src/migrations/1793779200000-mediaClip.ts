@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class MediaClip1793779200000 implements MigrationInterface {
+    name = 'MediaClip1793779200000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media" ADD "clipOfId" uuid`);
+        await queryRunner.query(`ALTER TABLE "media" ADD "clip" json`);
+        await queryRunner.query(`CREATE INDEX "IDX_c04ab90fffb824fb4e8b41675f" ON "media" ("clipOfId") `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "public"."IDX_c04ab90fffb824fb4e8b41675f"`);
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "clip"`);
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "clipOfId"`);
+    }
+
+}
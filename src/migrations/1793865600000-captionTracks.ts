@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class CaptionTracks1793865600000 implements MigrationInterface {
+    name = 'CaptionTracks1793865600000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TABLE "caption_track" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "mediaId" uuid NOT NULL, "language" character varying(35) NOT NULL, "label" character varying(255) NOT NULL, "isDefault" boolean NOT NULL DEFAULT false, "key" character varying NOT NULL, "url" character varying NOT NULL, "playlistKey" character varying NOT NULL, "duration" double precision NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_e9d7e34f98ede39f10979f6048a" UNIQUE ("mediaId", "language"), CONSTRAINT "PK_182dde23d67ed07eab0d459cec0" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE INDEX "IDX_2a8995e4883ed026ee30aeef40" ON "caption_track" ("mediaId") `);
+        await queryRunner.query(`ALTER TABLE "media" ADD "playlistKey" character varying`);
+        await queryRunner.query(`ALTER TABLE "caption_track" ADD CONSTRAINT "FK_2a8995e4883ed026ee30aeef40d" FOREIGN KEY ("mediaId") REFERENCES "media"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "caption_track" DROP CONSTRAINT "FK_2a8995e4883ed026ee30aeef40d"`);
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "playlistKey"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_2a8995e4883ed026ee30aeef40"`);
+        await queryRunner.query(`DROP TABLE "caption_track"`);
+    }
+
+}
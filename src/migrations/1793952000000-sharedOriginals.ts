@@ -0,0 +1,16 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class SharedOriginals1793952000000 implements MigrationInterface {
+    name = 'SharedOriginals1793952000000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media" DROP CONSTRAINT "UQ_b305063b0a030ab458c128078c7"`);
+        await queryRunner.query(`ALTER TABLE "media" ADD "uploadKey" character varying`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "media" DROP COLUMN "uploadKey"`);
+        await queryRunner.query(`ALTER TABLE "media" ADD CONSTRAINT "UQ_b305063b0a030ab458c128078c7" UNIQUE ("key")`);
+    }
+
+}
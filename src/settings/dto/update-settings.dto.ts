@@ -0,0 +1,15 @@
+// src/settings/dto/update-settings.dto.ts
+
+import { IsBoolean, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateSettingsDto {
+  @ApiPropertyOptional({
+    description:
+      'Keep the GPS location of uploaded photos (never returned publicly) so they can be searched by place',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  keepLocation?: boolean;
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SettingsService } from './settings.service';
+import { UserSettings } from './user-settings.entity';
+import { LoggerService } from 'src/logger/logger.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([UserSettings])],
+  providers: [SettingsService, LoggerService],
+  exports: [SettingsService],
+})
+export class SettingsModule {}
@@ -0,0 +1,41 @@
+// src/settings/settings.service.ts
+
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { UserSettings } from './user-settings.entity';
+import { UpdateSettingsDto } from './dto/update-settings.dto';
+import { LoggerService } from 'src/logger/logger.service';
+
+@Injectable()
+export class SettingsService {
+  constructor(
+    @InjectRepository(UserSettings)
+    private settingsRepository: Repository<UserSettings>,
+    private readonly logger: LoggerService
+  ) {}
+
+  /**
+   * Retrieves a user's settings, falling back to the defaults.
+   */
+  async getSettings(userId: string): Promise<UserSettings> {
+    const settings = await this.settingsRepository.findOne({
+      where: { userId },
+    });
+    return settings ?? this.settingsRepository.create({ userId });
+  }
+
+  /**
+   * Updates a user's settings, creating them on first change.
+   */
+  async updateSettings(
+    userId: string,
+    changes: UpdateSettingsDto
+  ): Promise<UserSettings> {
+    const settings = await this.getSettings(userId);
+    Object.assign(settings, changes);
+    const saved = await this.settingsRepository.save(settings);
+    this.logger.log(`Updated settings for user: ${userId}`);
+    return saved;
+  }
+}
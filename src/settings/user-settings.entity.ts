@@ -0,0 +1,30 @@
+// src/settings/user-settings.entity.ts
+
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { IsBoolean, IsString } from 'class-validator';
+
+/**
+ * Per-user media preferences. Users without a row get the defaults.
+ */
+@Entity('user_settings')
+export class UserSettings {
+  @PrimaryColumn()
+  @IsString()
+  userId!: string;
+
+  @Column({ default: false })
+  @IsBoolean()
+  keepLocation!: boolean; // Keep GPS coordinates privately so media can be searched by place
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
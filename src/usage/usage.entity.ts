@@ -0,0 +1,72 @@
+// src/usage/usage.entity.ts
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  Unique,
+} from 'typeorm';
+import { IsEnum, IsInt, IsString, IsUUID, Min } from 'class-validator';
+import { MediaType } from '../common/enums/media-type.enum';
+import { UsageKind } from '../common/enums/usage-kind.enum';
+
+/**
+ * Storage usage ledger. One row per stored object (original or derivative),
+ * keyed by storage key so regenerating a derivative replaces its entry.
+ */
+@Entity('storage_usage')
+@Unique(['key'])
+@Index('IDX_STORAGE_USAGE_USER_TYPE', ['userId', 'mediaType'])
+export class StorageUsage {
+  @PrimaryGeneratedColumn('uuid')
+  @IsUUID()
+  id!: string;
+
+  @Column()
+  @Index()
+  @IsUUID()
+  userId!: string; // Owner the bytes are charged to
+
+  @Column('uuid')
+  @Index()
+  @IsUUID()
+  mediaId!: string;
+
+  @Column({
+    type: 'enum',
+    enum: MediaType,
+  })
+  @IsEnum(MediaType)
+  mediaType!: MediaType;
+
+  @Column({
+    type: 'enum',
+    enum: UsageKind,
+  })
+  @IsEnum(UsageKind)
+  kind!: UsageKind;
+
+  @Column()
+  @IsString()
+  key!: string; // Storage object key
+
+  @Column({
+    type: 'bigint',
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string) => parseInt(value, 10),
+    },
+  })
+  @IsInt()
+  @Min(0)
+  bytes!: number;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
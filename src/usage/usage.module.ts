@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { UsageService } from './usage.service';
+import { StorageUsage } from './usage.entity';
+import { LoggerService } from 'src/logger/logger.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([StorageUsage])],
+  providers: [UsageService, LoggerService],
+  exports: [UsageService],
+})
+export class UsageModule {}
@@ -0,0 +1,178 @@
+// src/usage/usage.service.ts
+
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { StorageUsage } from './usage.entity';
+import { LoggerService } from 'src/logger/logger.service';
+import { MediaType } from '../common/enums/media-type.enum';
+import { UsageKind } from '../common/enums/usage-kind.enum';
+
+export interface UsageBreakdown {
+  plan: string;
+  quotaBytes: number;
+  usedBytes: number;
+  remainingBytes: number;
+  byType: Record<
+    MediaType,
+    { originalBytes: number; derivativeBytes: number; totalBytes: number }
+  >;
+}
+
+@Injectable()
+export class UsageService {
+  constructor(
+    @InjectRepository(StorageUsage)
+    private usageRepository: Repository<StorageUsage>,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService
+  ) {}
+
+  /**
+   * Records (or replaces) the bytes stored under a key for a media item.
+   */
+  async recordObject(entry: {
+    userId: string;
+    mediaId: string;
+    mediaType: MediaType;
+    kind: UsageKind;
+    key: string;
+    bytes: number;
+  }): Promise<void> {
+    await this.usageRepository.upsert(entry, ['key']);
+    this.logger.log(
+      `Recorded ${entry.bytes} bytes of ${entry.kind} usage for user: ${entry.userId}`
+    );
+  }
+
+  /**
+   * Returns the storage keys charged to a media item.
+   */
+  async getMediaKeys(mediaId: string): Promise<string[]> {
+    const entries = await this.usageRepository.find({
+      where: { mediaId },
+      select: ['key'],
+    });
+    return entries.map(entry => entry.key);
+  }
+
+  /**
+   * Releases all usage charged to a media item.
+   */
+  async removeMedia(mediaId: string): Promise<void> {
+    await this.usageRepository.delete({ mediaId });
+    this.logger.log(`Released storage usage for media: ${mediaId}`);
+  }
+
+  /**
+   * Releases the usage charged for a single storage key.
+   */
+  async removeKey(key: string): Promise<void> {
+    await this.usageRepository.delete({ key });
+  }
+
+  /**
+   * Moves all usage charged to one media item onto another, e.g. when a
+   * duplicate takes over the stored objects of a deleted original.
+   */
+  async transferMedia(fromMediaId: string, toMediaId: string): Promise<void> {
+    await this.usageRepository.update(
+      { mediaId: fromMediaId },
+      { mediaId: toMediaId }
+    );
+    this.logger.log(
+      `Transferred storage usage from media ${fromMediaId} to ${toMediaId}`
+    );
+  }
+
+  /**
+   * Charges a single storage key to another media item, e.g. when media that
+   * shares the original of a deleted one takes it over.
+   */
+  async transferKey(
+    key: string,
+    fromMediaId: string,
+    toMediaId: string
+  ): Promise<void> {
+    await this.usageRepository.update(
+      { key, mediaId: fromMediaId },
+      { mediaId: toMediaId }
+    );
+  }
+
+  /**
+   * Resolves a plan name to its quota in bytes, falling back to the default plan.
+   */
+  getQuota(plan?: string): { plan: string; quotaBytes: number } {
+    const plans =
+      this.configService.get<Record<string, number>>('quotas.plans') ?? {};
+    const resolved =
+      plan && plans[plan] !== undefined
+        ? plan
+        : this.configService.get<string>('quotas.defaultPlan') || 'free';
+    return { plan: resolved, quotaBytes: plans[resolved] ?? 0 };
+  }
+
+  /**
+   * Returns a user's usage against their quota, broken down by media type.
+   */
+  async getUsage(userId: string, plan?: string): Promise<UsageBreakdown> {
+    const rows: { mediaType: MediaType; kind: UsageKind; bytes: string }[] =
+      await this.usageRepository
+        .createQueryBuilder('usage')
+        .select('usage.mediaType', 'mediaType')
+        .addSelect('usage.kind', 'kind')
+        .addSelect('SUM(usage.bytes)', 'bytes')
+        .where('usage.userId = :userId', { userId })
+        .groupBy('usage.mediaType')
+        .addGroupBy('usage.kind')
+        .getRawMany();
+
+    const byType = Object.values(MediaType).reduce(
+      (acc, type) => ({
+        ...acc,
+        [type]: { originalBytes: 0, derivativeBytes: 0, totalBytes: 0 },
+      }),
+      {} as UsageBreakdown['byType']
+    );
+
+    let usedBytes = 0;
+    for (const row of rows) {
+      const bytes = parseInt(row.bytes, 10) || 0;
+      const bucket = byType[row.mediaType];
+      if (row.kind === UsageKind.ORIGINAL) {
+        bucket.originalBytes += bytes;
+      } else {
+        bucket.derivativeBytes += bytes;
+      }
+      bucket.totalBytes += bytes;
+      usedBytes += bytes;
+    }
+
+    const quota = this.getQuota(plan);
+    return {
+      plan: quota.plan,
+      quotaBytes: quota.quotaBytes,
+      usedBytes,
+      remainingBytes: Math.max(quota.quotaBytes - usedBytes, 0),
+      byType,
+    };
+  }
+
+  /**
+   * Returns the bytes a user may still store, rejecting users already at quota.
+   */
+  async assertWithinQuota(userId: string, plan?: string): Promise<number> {
+    const { remainingBytes, quotaBytes } = await this.getUsage(userId, plan);
+
+    if (remainingBytes <= 0) {
+      this.logger.warn(`Storage quota exceeded for user: ${userId}`);
+      throw new BadRequestException(
+        `Storage quota of ${quotaBytes} bytes exceeded`
+      );
+    }
+
+    return remainingBytes;
+  }
+}
@@ -0,0 +1,105 @@
+// src/watermarks/dto/create-watermark-profile.dto.ts
+
+import {
+  IsBoolean,
+  IsEnum,
+  IsHexColor,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Length,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WatermarkType } from 'src/common/enums/watermark-type.enum';
+import { WatermarkPosition } from 'src/common/enums/watermark-position.enum';
+import { Visibility } from 'src/common/enums/visibility.enum';
+
+export class CreateWatermarkProfileDto {
+  @ApiProperty({ description: 'Name of the profile', example: 'Public albums' })
+  @IsString()
+  @Length(1, 255)
+  name!: string;
+
+  @ApiProperty({ description: 'Kind of overlay', enum: WatermarkType })
+  @IsEnum(WatermarkType)
+  type!: WatermarkType;
+
+  @ApiPropertyOptional({
+    description: 'Overlay text, for text watermarks',
+    example: '© Ecoh',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 255)
+  text?: string;
+
+  @ApiPropertyOptional({
+    description: 'Text colour, for text watermarks',
+    default: '#ffffff',
+  })
+  @IsOptional()
+  @IsHexColor()
+  color?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'ID of a processed image to overlay, for image watermarks (use a PNG with transparency)',
+  })
+  @IsOptional()
+  @IsUUID()
+  overlayMediaId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Where the overlay is placed',
+    enum: WatermarkPosition,
+    default: WatermarkPosition.BOTTOM_RIGHT,
+  })
+  @IsOptional()
+  @IsEnum(WatermarkPosition)
+  position?: WatermarkPosition;
+
+  @ApiPropertyOptional({ description: 'Overlay opacity (0-1)', default: 0.5 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  opacity?: number;
+
+  @ApiPropertyOptional({
+    description: 'Overlay width as a fraction of the image width (0.01-1)',
+    default: 0.2,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.01)
+  @Max(1)
+  scale?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Apply to media in albums with this visibility (set this or userId)',
+    enum: Visibility,
+  })
+  @IsOptional()
+  @IsEnum(Visibility)
+  visibility?: Visibility;
+
+  @ApiPropertyOptional({
+    description:
+      'Apply to all media uploaded by this user (set this or visibility)',
+  })
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Whether the profile is applied',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,8 @@
+// src/watermarks/dto/update-watermark-profile.dto.ts
+
+import { PartialType } from '@nestjs/swagger';
+import { CreateWatermarkProfileDto } from './create-watermark-profile.dto';
+
+export class UpdateWatermarkProfileDto extends PartialType(
+  CreateWatermarkProfileDto
+) {}
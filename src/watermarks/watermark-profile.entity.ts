@@ -0,0 +1,113 @@
+// src/watermarks/watermark-profile.entity.ts
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import {
+  IsBoolean,
+  IsEnum,
+  IsHexColor,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Length,
+  Max,
+  Min,
+} from 'class-validator';
+import { WatermarkType } from '../common/enums/watermark-type.enum';
+import { WatermarkPosition } from '../common/enums/watermark-position.enum';
+import { Visibility } from '../common/enums/visibility.enum';
+
+/**
+ * A watermark defined by an administrator. A profile targets either one
+ * user's media or all media in albums of a given visibility; a user's own
+ * profile takes precedence over a visibility profile.
+ */
+@Entity('watermark_profile')
+export class WatermarkProfile {
+  @PrimaryGeneratedColumn('uuid')
+  @IsUUID()
+  id!: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  @IsString()
+  @Length(1, 255)
+  name!: string;
+
+  @Column({
+    type: 'enum',
+    enum: WatermarkType,
+  })
+  @IsEnum(WatermarkType)
+  type!: WatermarkType;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  @IsOptional()
+  @IsString()
+  text?: string | null; // Overlay text, for text watermarks
+
+  @Column({ type: 'varchar', length: 7, default: '#ffffff' })
+  @IsHexColor()
+  color!: string; // Text colour, for text watermarks
+
+  @Column({ type: 'uuid', nullable: true })
+  @IsOptional()
+  @IsUUID()
+  overlayMediaId?: string | null; // Image media overlaid, for image watermarks
+
+  @Column({
+    type: 'enum',
+    enum: WatermarkPosition,
+    default: WatermarkPosition.BOTTOM_RIGHT,
+  })
+  @IsEnum(WatermarkPosition)
+  position!: WatermarkPosition;
+
+  @Column({ type: 'real', default: 0.5 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  opacity!: number;
+
+  @Column({ type: 'real', default: 0.2 })
+  @IsNumber()
+  @Min(0.01)
+  @Max(1)
+  scale!: number; // Overlay width as a fraction of the image width
+
+  @Column({
+    type: 'enum',
+    enum: Visibility,
+    nullable: true,
+  })
+  @Index()
+  @IsOptional()
+  @IsEnum(Visibility)
+  visibility?: Visibility | null; // Applies to media in albums with this visibility
+
+  @Column({ type: 'varchar', nullable: true })
+  @Index()
+  @IsOptional()
+  @IsString()
+  userId?: string | null; // Applies to all media uploaded by this user
+
+  @Column({ default: true })
+  @IsBoolean()
+  isActive!: boolean;
+
+  @Column()
+  @IsString()
+  createdBy!: string; // Administrator who defined the profile
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
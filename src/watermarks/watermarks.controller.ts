@@ -0,0 +1,132 @@
+// src/watermarks/watermarks.controller.ts
+
+import {
+  Controller,
+  Post,
+  Body,
+  UseGuards,
+  Req,
+  Get,
+  Param,
+  Patch,
+  Delete,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { WatermarksService } from './watermarks.service';
+import { CreateWatermarkProfileDto } from './dto/create-watermark-profile.dto';
+import { UpdateWatermarkProfileDto } from './dto/update-watermark-profile.dto';
+import { JwtAuthGuard } from 'src/auth/jwt-auth.guard';
+import { AdminGuard } from 'src/auth/admin.guard';
+
+/**
+ * Watermark profiles, managed by administrators. Images are watermarked
+ * during processing with the profile that applies to them.
+ */
+@ApiBearerAuth()
+@ApiTags('watermarks')
+@Controller('watermarks')
+@UseGuards(JwtAuthGuard, AdminGuard)
+export class WatermarksController {
+  constructor(private readonly watermarksService: WatermarksService) {}
+
+  /**
+   * Creates a watermark profile.
+   *
+   * **Endpoint**: POST /watermarks
+   *
+   * **Request Body**:
+   * ```json
+   * {
+   *   "name": "Public albums",
+   *   "type": "text",
+   *   "text": "© Ecoh",
+   *   "position": "bottom_right",
+   *   "opacity": 0.5,
+   *   "scale": 0.2,
+   *   "visibility": "everyone"
+   * }
+   * ```
+   *
+   * **Response**:
+   * ```json
+   * {
+   *   "id": "profile-uuid",
+   *   "name": "Public albums",
+   *   "type": "text",
+   *   "text": "© Ecoh",
+   *   "color": "#ffffff",
+   *   "overlayMediaId": null,
+   *   "position": "bottom_right",
+   *   "opacity": 0.5,
+   *   "scale": 0.2,
+   *   "visibility": "everyone",
+   *   "userId": null,
+   *   "isActive": true,
+   *   "createdBy": "admin-uuid",
+   *   "createdAt": "2023-10-01T12:00:00Z",
+   *   "updatedAt": "2023-10-01T12:00:00Z"
+   * }
+   * ```
+   */
+  @Post()
+  @ApiOperation({ summary: 'Create a watermark profile' })
+  @ApiResponse({ status: 201, description: 'Profile created successfully.' })
+  async createProfile(@Body() body: CreateWatermarkProfileDto, @Req() req) {
+    const adminId = req.user.sub;
+    return this.watermarksService.createProfile(body, adminId);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List watermark profiles' })
+  @ApiResponse({ status: 200, description: 'Profiles retrieved successfully.' })
+  async getProfiles() {
+    return this.watermarksService.getProfiles();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a watermark profile by ID' })
+  @ApiResponse({ status: 200, description: 'Profile retrieved successfully.' })
+  @ApiResponse({ status: 404, description: 'Profile not found.' })
+  async getProfile(@Param('id') id: string) {
+    return this.watermarksService.getProfile(id);
+  }
+
+  /**
+   * Updates a watermark profile. Images already processed keep their
+   * watermark until they are processed again.
+   *
+   * **Endpoint**: PATCH /watermarks/:id
+   *
+   * **Request Body**:
+   * ```json
+   * {
+   *   "opacity": 0.3,
+   *   "isActive": false
+   * }
+   * ```
+   */
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a watermark profile' })
+  @ApiResponse({ status: 200, description: 'Profile updated successfully.' })
+  @ApiResponse({ status: 404, description: 'Profile not found.' })
+  async updateProfile(
+    @Param('id') id: string,
+    @Body() body: UpdateWatermarkProfileDto
+  ) {
+    return this.watermarksService.updateProfile(id, body);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a watermark profile' })
+  @ApiResponse({ status: 200, description: 'Profile deleted successfully.' })
+  @ApiResponse({ status: 404, description: 'Profile not found.' })
+  async deleteProfile(@Param('id') id: string) {
+    await this.watermarksService.deleteProfile(id);
+    return { message: 'Watermark profile deleted' };
+  }
+}
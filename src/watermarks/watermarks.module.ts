@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WatermarksService } from './watermarks.service';
+import { WatermarksController } from './watermarks.controller';
+import { WatermarkProfile } from './watermark-profile.entity';
+import { Media } from 'src/media/media.entity';
+import { LoggerService } from 'src/logger/logger.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([WatermarkProfile, Media])],
+  providers: [WatermarksService, LoggerService],
+  controllers: [WatermarksController],
+  exports: [WatermarksService],
+})
+export class WatermarksModule {}
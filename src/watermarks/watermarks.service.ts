@@ -0,0 +1,144 @@
+// src/watermarks/watermarks.service.ts
+
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { WatermarkProfile } from './watermark-profile.entity';
+import { CreateWatermarkProfileDto } from './dto/create-watermark-profile.dto';
+import { UpdateWatermarkProfileDto } from './dto/update-watermark-profile.dto';
+import { Media } from 'src/media/media.entity';
+import { LoggerService } from 'src/logger/logger.service';
+import { WatermarkType } from '../common/enums/watermark-type.enum';
+import { MediaStatus } from '../common/enums/media-status.enum';
+import { MediaType } from '../common/enums/media-type.enum';
+import { Visibility } from '../common/enums/visibility.enum';
+
+@Injectable()
+export class WatermarksService {
+  constructor(
+    @InjectRepository(WatermarkProfile)
+    private profileRepository: Repository<WatermarkProfile>,
+    @InjectRepository(Media)
+    private mediaRepository: Repository<Media>,
+    private readonly logger: LoggerService
+  ) {}
+
+  /**
+   * Creates a watermark profile.
+   */
+  async createProfile(
+    dto: CreateWatermarkProfileDto,
+    adminId: string
+  ): Promise<WatermarkProfile> {
+    const profile = this.profileRepository.create({
+      ...dto,
+      createdBy: adminId,
+    });
+    await this.validateProfile(profile);
+
+    const saved = await this.profileRepository.save(profile);
+    this.logger.log(`Watermark profile created: ${saved.id} by ${adminId}`);
+    return saved;
+  }
+
+  /**
+   * Lists all watermark profiles, newest first.
+   */
+  async getProfiles(): Promise<WatermarkProfile[]> {
+    return this.profileRepository.find({ order: { createdAt: 'DESC' } });
+  }
+
+  /**
+   * Retrieves a watermark profile by ID.
+   */
+  async getProfile(id: string): Promise<WatermarkProfile> {
+    const profile = await this.profileRepository.findOne({ where: { id } });
+    if (!profile) {
+      throw new NotFoundException('Watermark profile not found');
+    }
+    return profile;
+  }
+
+  /**
+   * Updates a watermark profile. Media already processed keeps its watermark
+   * until it is processed again.
+   */
+  async updateProfile(
+    id: string,
+    dto: UpdateWatermarkProfileDto
+  ): Promise<WatermarkProfile> {
+    const profile = await this.getProfile(id);
+    Object.assign(profile, dto);
+    await this.validateProfile(profile);
+
+    const saved = await this.profileRepository.save(profile);
+    this.logger.log(`Watermark profile updated: ${id}`);
+    return saved;
+  }
+
+  /**
+   * Deletes a watermark profile.
+   */
+  async deleteProfile(id: string): Promise<void> {
+    const profile = await this.getProfile(id);
+    await this.profileRepository.remove(profile);
+    this.logger.log(`Watermark profile deleted: ${id}`);
+  }
+
+  /**
+   * Finds the active profile that applies to media uploaded by a user into an
+   * album of the given visibility. The user's own profile wins.
+   */
+  async resolveProfile(
+    userId: string,
+    visibility?: Visibility | null
+  ): Promise<WatermarkProfile | null> {
+    const userProfile = await this.profileRepository.findOne({
+      where: { userId, isActive: true },
+      order: { updatedAt: 'DESC' },
+    });
+    if (userProfile || !visibility) {
+      return userProfile;
+    }
+
+    return this.profileRepository.findOne({
+      where: { visibility, isActive: true },
+      order: { updatedAt: 'DESC' },
+    });
+  }
+
+  private async validateProfile(profile: WatermarkProfile): Promise<void> {
+    if (!profile.userId === !profile.visibility) {
+      throw new BadRequestException(
+        'A watermark profile must target either a user or an album visibility'
+      );
+    }
+
+    if (profile.type === WatermarkType.TEXT) {
+      if (!profile.text) {
+        throw new BadRequestException('Text watermarks require text');
+      }
+      return;
+    }
+
+    if (!profile.overlayMediaId) {
+      throw new BadRequestException(
+        'Image watermarks require an overlay media ID'
+      );
+    }
+    const overlay = await this.mediaRepository.findOne({
+      where: { id: profile.overlayMediaId },
+    });
+    if (
+      !overlay ||
+      overlay.type === MediaType.VIDEO ||
+      overlay.status !== MediaStatus.READY
+    ) {
+      throw new BadRequestException('Overlay media must be a processed image');
+    }
+  }
+}
@@ -2,6 +2,7 @@ import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
 import AWS from 'aws-sdk';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { MediaService } from 'src/media/media.service';
+import { VideoTranscoder } from 'src/aws/video-transcoder.service';
 import { LoggerService } from 'src/logger/logger.service';
 
 @Injectable()
@@ -11,17 +12,22 @@ export class WorkerService implements OnModuleInit {
   constructor(
     private readonly logger: LoggerService,
     private readonly mediaService: MediaService,
+    private readonly videoTranscoder: VideoTranscoder,
     @Inject('DYNAMODB') private readonly dynamoDB: AWS.DynamoDB.DocumentClient,
     @Inject('SQS') private readonly sqs: AWS.SQS
   ) {
     this.queueUrls = {
       MEDIA_PROCESSING: process.env.AWS_SQS_MEDIA_PROCESSING_QUEUE_URL || '',
       VIDEO_MODERATION: process.env.AWS_SQS_VIDEO_MODERATION_QUEUE_URL || '',
+      // MediaConvert job state changes, routed by EventBridge. Optional: without
+      // it, transcoding jobs are only picked up by reconciliation polling.
+      TRANSCODING_EVENTS:
+        process.env.AWS_SQS_TRANSCODING_EVENTS_QUEUE_URL || '',
     };
 
     // Ensure all required queues exist
     Object.entries(this.queueUrls).forEach(([key, url]) => {
-      if (!url) {
+      if (!url && key !== 'TRANSCODING_EVENTS') {
         throw new Error(
           `SQS Queue URL for ${key} is not defined in environment variables.`
         );
@@ -45,6 +51,9 @@ export class WorkerService implements OnModuleInit {
     await Promise.all([
       this.pollQueue('MEDIA_PROCESSING'),
       this.pollQueue('VIDEO_MODERATION'),
+      ...(this.queueUrls.TRANSCODING_EVENTS
+        ? [this.pollQueue('TRANSCODING_EVENTS')]
+        : []),
     ]);
   }
 
@@ -103,13 +112,26 @@ export class WorkerService implements OnModuleInit {
     }
 
     try {
-      const snsMessage = JSON.parse(message.Body);
+      const body = JSON.parse(message.Body);
 
-      // Parse the actual payload from the SNS message
-      const payload = JSON.parse(snsMessage.Message);
+      // Parse the actual payload from the SNS message. EventBridge delivers
+      // transcoding events to their queue directly.
+      const payload =
+        queueName === 'TRANSCODING_EVENTS' ? body : JSON.parse(body.Message);
 
       switch (queueName) {
         case 'MEDIA_PROCESSING':
+          if (payload.clip) {
+            await this.mediaService.renderClip(payload.mediaId);
+            break;
+          }
+          if (payload.reprocess) {
+            await this.mediaService.reprocessMedia(
+              payload.mediaId,
+              payload.steps
+            );
+            break;
+          }
           await this.mediaService.processUploadedMedia(
             payload.mediaId,
             payload.key,
@@ -123,6 +145,10 @@ export class WorkerService implements OnModuleInit {
           await this.processVideoModerationMessage(payload);
           break;
 
+        case 'TRANSCODING_EVENTS':
+          await this.videoTranscoder.handleTranscodingEvent(payload);
+          break;
+
         default:
           throw new Error(`Unknown queue type: ${queueName}`);
       }